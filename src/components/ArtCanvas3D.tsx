@@ -1,13 +1,40 @@
-import { useRef, useState, useEffect, Suspense, useMemo } from 'react';
+import { useRef, useState, useEffect, useCallback, Suspense, useMemo, forwardRef, useImperativeHandle, ElementRef, Ref } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls, PerspectiveCamera, Text, Environment, Line } from '@react-three/drei';
+import { OrbitControls, PerspectiveCamera, Text, Environment } from '@react-three/drei';
 import * as THREE from 'three';
 import { useToast } from '@/hooks/use-toast';
 import { ToolType, InteractionMode } from './ToolBar';
-import { LeadTip, ContactPoint, LeadTipGeometry } from './LeadTipPhysics';
-import { useDrawingStrokeSystem, DrawingStroke } from './DrawingStrokeSystem';
+import { LeadTip, ContactPoint, LeadTipGeometry, LeadWearState } from './LeadTipPhysics';
+import {
+  useDrawingStrokeSystem,
+  DrawingStroke,
+  StrokeSegment,
+  StrokeContact,
+  DEFAULT_STROKE_CONTACT,
+  createStrokePoint,
+  summarizeStrokePoints,
+  STROKE_WIDTH_TO_WORLD
+} from './DrawingStrokeSystem';
 import { CoordinateSmoothingEngine } from './CoordinateSmoothingEngine';
 import { WearIndicatorHUD } from './WearIndicatorHUD';
+import { renderSurfaceToCanvas, canvasToBlob, RasterExportOptions } from './ArtworkExport';
+import { createSurfaceTopology, getSurfaceProperties, SurfaceTopology } from './SurfaceTopology';
+import { MarkStack } from './MarkLayer';
+import { ArtworkLayer, groupSegmentsByLayer } from './ArtworkLayers';
+import { Progress } from '@/components/ui/progress';
+import { StrokePaint, PAINT_MEDIA } from './PaintMedia';
+import { StudioClock } from './StudioClock';
+import { BristleBrush, BristleSettings, getBristleSettings } from './BristleBrush';
+import { ToolPhysics, ToolPhysicsChange } from './PhysicsEngine';
+import { InkFeed, PenTip, PEN_TIPS } from './PenInk';
+import { getNibEdgeAzimuth, getNibLineWidth, getInkPooling } from './FountainNib';
+import { CrayonTip, getCrayonCoverage } from './CrayonWax';
+import { MechanicalPencilSettings, MM_TO_WORLD, getLeadStrokeWidth, isLeadOverloaded, wearLead } from './MechanicalLead';
+import { EraserBlock, ERASER_MATERIALS, scatterCrumbs } from './EraserMaterial';
+import { BlendingStumpSettings, STUMP_TIPS, getStumpContactRadius, getStumpPickup } from './BlendingStump';
+import { SharpenerType, SHARPENERS, DEFAULT_PENCIL_LENGTH } from './PencilSharpener';
+import { HB_HARDNESS, getLeadGradeScale } from './LeadGrade';
+import { StylusReading, readStylus } from './StylusInput';
 
 interface Tool3DProps {
   type: ToolType;
@@ -19,16 +46,90 @@ interface Tool3DProps {
   mode: InteractionMode;
 }
 
+// Wear on the crayon and eraser, which a reset clears along with the lead tip
+export interface ToolWearState {
+  crayonBluntness: number;
+  eraserWear: number;
+  eraserDirt: number;
+}
+
+export interface ArtCanvas3DHandle {
+  resetScene: () => void; // Clears strokes in progress, restores a fresh lead tip, crayon and eraser, re-centers tool and camera
+  getLeadWear: () => LeadWearState;
+  restoreLeadWear: (state: LeadWearState | null) => void;
+  getToolWear: () => ToolWearState;
+  restoreToolWear: (state: ToolWearState) => void;
+  exportRaster: (options: RasterExportOptions) => Promise<Blob>;
+  kneadEraser: () => void; // Reshapes a kneaded eraser into a clean point
+  sharpenLead: (sharpener: SharpenerType) => void; // Cuts a fresh point; the caller shortens the pencil
+}
+
+
 interface CanvasSurface {
   type: 'whiteboard' | 'canvas' | 'paper';
   texture: string;
   roughness: number;
 }
 
-const Pencil3D = ({ position, rotation, pressure, angle, isDrawing, mode, roll, canDraw, onDrawPoint, leadY = -0.98 }: Tool3DProps & { roll?: number; canDraw?: boolean; onDrawPoint?: (point: THREE.Vector3) => void; leadY?: number }) => {
+const EMPTY_BRUSH_LOAD = 0.01; // Below this the brush is dry and won't start a stroke
+const WETNESS_REFRESH_INTERVAL = 0.25; // Seconds between updates of the wet gloss; drying is slow
+const SURFACE_Y = -1; // Surface position
+const BRUSH_FERRULE_Y = -0.575; // Bottom of the brush's ferrule, where the hairs are set
+const BRUSH_PRESS_DEPTH = 0.04; // How far full pressure pushes the brush down past its point
+const BRUSH_HAIR_COLOR = '#D8C3A0';
+const TIP_CONTACT_TOLERANCE = 0.02; // How close a tool's tip must come to the surface to mark it
+const PEN_TOP_Y = 0.65;
+const PEN_GRIP_Y = -0.78; // Bottom of the grip, where the cone starts
+const PEN_GRIP_LENGTH = 0.2;
+const PEN_BALL_RADIUS = 0.005;
+const PEN_NIB_LENGTH = 0.1;
+const PEN_FELT_LENGTH = 0.05;
+const CRAYON_RADIUS = 0.045;
+const CRAYON_POINT_RADIUS = 0.008;
+const CRAYON_POINT_LENGTH = 0.1;
+const CRAYON_TOP_Y = 0.45;
+const CRAYON_WRAPPER_BOTTOM_Y = -0.6;
+const CRAYON_WEAR_STEPS = 20;
+const STUMP_TOP_Y = 0.5;
+const STUMP_PAPER_COLOR = '#E6DFCF';
+const WOOD_PENCIL_BOTTOM_Y = -0.75; // Where the shaft meets the sharpened wood
+const LEAD_TIP_WEAR_RATE = 0.002; // Lead tip wear per unit of pressure for an HB
+const MAX_CRUMBS = 6000; // Eraser crumbs shown on the surface at once
+const PENCIL_TOP_Y = 0.6;
+const PENCIL_GRIP_LENGTH = 0.3;
+const PENCIL_CONE_LENGTH = 0.12;
+const PENCIL_SLEEVE_LENGTH = 0.06;
+
+// Debug heat-map of wet paint: blue where barely damp through yellow to red where freshly laid
+const WetnessHeatmapShader = {
+  vertexShader: /* glsl */`
+    varying vec2 vUv;
+
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }`,
+  fragmentShader: /* glsl */`
+    uniform sampler2D tWetness;
+    varying vec2 vUv;
+
+    void main() {
+      float wetness = texture2D(tWetness, vUv).r;
+      if (wetness < 0.01) discard;
+      vec3 damp = vec3(0.1, 0.3, 1.0);
+      vec3 tacky = vec3(1.0, 0.9, 0.1);
+      vec3 fresh = vec3(1.0, 0.15, 0.05);
+      vec3 color = wetness < 0.5 ? mix(damp, tacky, wetness * 2.0) : mix(tacky, fresh, wetness * 2.0 - 1.0);
+      gl_FragColor = vec4(color, 0.35 + 0.4 * wetness);
+    }`
+};
+
+const Pencil3D = ({ position, rotation, pressure, angle, isDrawing, mode, roll, canDraw, onDrawPoint, leadY = -0.98, leadGeometry, onWearChange, bodyLength = DEFAULT_PENCIL_LENGTH, leadHardness = HB_HARDNESS }: Tool3DProps & { roll?: number; canDraw?: boolean; onDrawPoint?: (point: THREE.Vector3, contact?: StrokeContact) => void; leadY?: number; leadGeometry?: LeadTipGeometry; onWearChange?: () => void; bodyLength?: number; leadHardness?: number }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const tipRef = useRef<THREE.Mesh>(null);
   const groupRef = useRef<THREE.Group>(null);
+  // Sharpening eats the body from the point end, so the top comes down towards it
+  const bodyTop = WOOD_PENCIL_BOTTOM_Y + bodyLength;
 
   useFrame(() => {
     if (isDrawing && tipRef.current) {
@@ -44,8 +145,8 @@ const Pencil3D = ({ position, rotation, pressure, angle, isDrawing, mode, roll,
       <group rotation={rotation} position={[0, -leadY, 0]}>
         <group position={[0, leadY, 0]}>
           {/* Pencil body - wooden shaft */}
-          <mesh ref={meshRef}>
-            <cylinderGeometry args={[0.04, 0.04, 1.5, 8]} />
+          <mesh ref={meshRef} position={[0, WOOD_PENCIL_BOTTOM_Y + bodyLength / 2, 0]}>
+            <cylinderGeometry args={[0.04, 0.04, bodyLength, 8]} />
             <meshPhysicalMaterial 
               color="#D2691E" 
               roughness={0.8}
@@ -55,7 +156,7 @@ const Pencil3D = ({ position, rotation, pressure, angle, isDrawing, mode, roll,
           </mesh>
           
           {/* Metal ferrule */}
-          <mesh position={[0, 0.6, 0]}>
+          <mesh position={[0, bodyTop - 0.15, 0]}>
             <cylinderGeometry args={[0.045, 0.045, 0.2, 8]} />
             <meshPhysicalMaterial 
               color="#C0C0C0" 
@@ -66,7 +167,7 @@ const Pencil3D = ({ position, rotation, pressure, angle, isDrawing, mode, roll,
           </mesh>
           
           {/* Eraser */}
-          <mesh position={[0, 0.75, 0]}>
+          <mesh position={[0, bodyTop, 0]}>
             <cylinderGeometry args={[0.04, 0.04, 0.1, 8]} />
             <meshPhysicalMaterial 
               color="#FFB6C1" 
@@ -83,16 +184,19 @@ const Pencil3D = ({ position, rotation, pressure, angle, isDrawing, mode, roll,
             isDrawing={isDrawing}
             surfaceY={-1}
             roll={roll || 0}
-            onContact={(contacts) => {
+            geometry={leadGeometry}
+            wearRate={LEAD_TIP_WEAR_RATE * getLeadGradeScale(leadHardness).wear}
+            onContact={(contacts, shape) => {
               if (contacts.length > 0 && canDraw && onDrawPoint) {
                 // Use the lowest/closest contact point for drawing
                 const contact = contacts[0];
                 const drawPoint = new THREE.Vector3(contact.position.x, contact.position.y + 0.001, contact.position.z);
-                onDrawPoint(drawPoint);
+                onDrawPoint(drawPoint, { shape: shape.shape, area: shape.area, orientation: shape.orientation });
               }
             }}
             onWearUpdate={(avgWear, vertices) => {
-              // Handle wear updates for realistic physics
+              // Wear only changes while the lead is being dragged across the surface
+              if (isDrawing && onWearChange) onWearChange();
             }}
           />
           
@@ -111,154 +215,437 @@ const Pencil3D = ({ position, rotation, pressure, angle, isDrawing, mode, roll,
   );
 };
 
-const Brush3D = ({ position, rotation, pressure, angle, isDrawing }: Tool3DProps) => {
-  const brushRef = useRef<THREE.Mesh>(null);
-  const bristlesRef = useRef<THREE.Group>(null);
+const Brush3D = ({ position, rotation, pressure, isDrawing, paintColor, canDraw, onDrawPoint, leadY = -0.98, bristleSettings }: Tool3DProps & { paintColor?: string; canDraw?: boolean; onDrawPoint?: (point: THREE.Vector3, contact?: StrokeContact, bristles?: number[]) => void; leadY?: number; bristleSettings: BristleSettings }) => {
+  const brushRef = useRef<THREE.Group>(null);
+  const hairsRef = useRef<THREE.LineSegments>(null);
+  const tipRef = useRef<THREE.Group>(null);
+  const tipWorld = useMemo(() => new THREE.Vector3(), []);
+  const worldToBrush = useMemo(() => new THREE.Matrix4(), []);
+  const vertex = useMemo(() => new THREE.Vector3(), []);
+
+  // Hairs run from the ferrule down to where the other tools' lead tip sits
+  const bristles = useMemo(() => new BristleBrush(bristleSettings, BRUSH_FERRULE_Y, leadY), [bristleSettings, leadY]);
+
+  const hairGeometry = useMemo(() => {
+    const vertices = bristles.bristles.reduce((sum, { nodes }) => sum + (nodes.length - 1) * 2, 0);
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(vertices * 3), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(vertices * 3), 3));
+    return geometry;
+  }, [bristles]);
+
+  useEffect(() => () => hairGeometry.dispose(), [hairGeometry]);
+
+  // Hairs carry the loaded paint towards their tips
+  useEffect(() => {
+    const colors = hairGeometry.getAttribute('color') as THREE.BufferAttribute;
+    const hair = new THREE.Color(BRUSH_HAIR_COLOR);
+    const paint = new THREE.Color(paintColor ?? BRUSH_HAIR_COLOR);
+    const color = new THREE.Color();
+    let index = 0;
+    bristles.bristles.forEach(({ nodes }) => {
+      const segments = nodes.length - 1;
+      for (let k = 0; k < segments; k++) {
+        [k, k + 1].forEach(node => {
+          color.lerpColors(hair, paint, node / segments);
+          colors.setXYZ(index++, color.r, color.g, color.b);
+        });
+      }
+    });
+    colors.needsUpdate = true;
+  }, [bristles, hairGeometry, paintColor]);
 
   useFrame(() => {
-    if (bristlesRef.current && isDrawing) {
-      // Simulate brush bend based on pressure
-      const bendAngle = pressure * 0.3;
-      bristlesRef.current.rotation.x = bendAngle;
-      
-      // Elastic bristle physics
-      bristlesRef.current.children.forEach((bristle, index) => {
-        if (bristle instanceof THREE.Mesh) {
-          const offset = (index % 2 - 0.5) * bendAngle * 0.5;
-          bristle.rotation.x = bendAngle + offset;
+    const brush = brushRef.current;
+    if (!brush) return;
+
+    // Pressing pushes the brush down its own axis, into the hairs
+    brush.position.y = isDrawing ? -BRUSH_PRESS_DEPTH * Math.min(1, pressure) : 0;
+    brush.updateWorldMatrix(true, false);
+    bristles.step(brush.matrixWorld, SURFACE_Y);
+
+    // Every hair on the surface lays its own trace, relative to the point of the brush
+    if (canDraw && onDrawPoint && tipRef.current) {
+      tipRef.current.getWorldPosition(tipWorld);
+      tipWorld.y = SURFACE_Y + 0.001;
+      const contacts = bristles.getContacts(tipWorld, SURFACE_Y);
+      if (contacts) {
+        onDrawPoint(tipWorld.clone(), {
+          shape: 'oval',
+          area: 0.0004 * (1 + pressure * 2),
+          orientation: rotation[1]
+        }, contacts);
+      }
+    }
+
+    const hairs = hairsRef.current;
+    if (hairs) {
+      const positions = hairs.geometry.getAttribute('position') as THREE.BufferAttribute;
+      worldToBrush.copy(brush.matrixWorld).invert();
+      let index = 0;
+      bristles.bristles.forEach(({ nodes }) => {
+        for (let k = 1; k < nodes.length; k++) {
+          [nodes[k - 1], nodes[k]].forEach(node => {
+            vertex.copy(node).applyMatrix4(worldToBrush);
+            positions.setXYZ(index++, vertex.x, vertex.y, vertex.z);
+          });
         }
       });
+      positions.needsUpdate = true;
     }
   });
 
   return (
     <group position={position} rotation={rotation}>
-      {/* Brush handle */}
-      <mesh ref={brushRef}>
-        <cylinderGeometry args={[0.03, 0.04, 1.2, 8]} />
-        <meshPhysicalMaterial 
-          color="#8B4513" 
-          roughness={0.9}
-          metalness={0.0}
-        />
-      </mesh>
-      
-      {/* Metal ferrule */}
-      <mesh position={[0, -0.5, 0]}>
-        <cylinderGeometry args={[0.04, 0.03, 0.15, 8]} />
-        <meshPhysicalMaterial 
-          color="#C0C0C0" 
-          roughness={0.2}
-          metalness={0.9}
-        />
-      </mesh>
-      
-      {/* Realistic brush bristles */}
-      <group ref={bristlesRef} position={[0, -0.7, 0]}>
-        {Array.from({ length: 20 }, (_, i) => (
-          <mesh key={i} position={[
-            (Math.random() - 0.5) * 0.06,
-            -Math.random() * 0.2,
-            (Math.random() - 0.5) * 0.06
-          ]}>
-            <cylinderGeometry args={[0.001, 0.002, 0.3, 4]} />
-            <meshPhysicalMaterial 
-              color="#4A4A4A"
-              roughness={0.8}
-              metalness={0.0}
-            />
-          </mesh>
-        ))}
+      <group ref={brushRef}>
+        {/* Brush handle */}
+        <mesh>
+          <cylinderGeometry args={[0.03, 0.04, 1.2, 8]} />
+          <meshPhysicalMaterial 
+            color="#8B4513" 
+            roughness={0.9}
+            metalness={0.0}
+          />
+        </mesh>
+        
+        {/* Metal ferrule */}
+        <mesh position={[0, -0.5, 0]}>
+          <cylinderGeometry args={[0.04, 0.03, 0.15, 8]} />
+          <meshPhysicalMaterial 
+            color="#C0C0C0" 
+            roughness={0.2}
+            metalness={0.9}
+          />
+        </mesh>
+        
+        {/* Point of the brush, level with the lead tip of the other tools */}
+        <group ref={tipRef} position={[0, leadY, 0]} />
+
+        {/* Simulated hairs, rewritten every frame in the brush's frame */}
+        <lineSegments ref={hairsRef} geometry={hairGeometry} frustumCulled={false}>
+          <lineBasicMaterial vertexColors />
+        </lineSegments>
       </group>
     </group>
   );
 };
 
-const DrawingSurface = ({ surfaceType, colorMap, displacementMap }: { surfaceType: CanvasSurface['type']; colorMap?: THREE.Texture; displacementMap?: THREE.Texture }) => {
-  const surfaceRef = useRef<THREE.Mesh>(null);
+const isTouchingSurface = (tip: THREE.Vector3) => tip.y <= SURFACE_Y + TIP_CONTACT_TOLERANCE;
 
-  const getSurfaceProperties = () => {
-    switch (surfaceType) {
-      case 'canvas':
-        return {
-          color: '#F5F5DC',
-          roughness: 0.9,
-          normalScale: 1.5,
-          displacement: 0.008, // Higher relief for canvas texture
-        };
-      case 'paper':
-        return {
-          color: '#FFFEF7',
-          roughness: 0.8,
-          normalScale: 0.8,
-          displacement: 0.003, // Subtle paper texture
-        };
-      default: // whiteboard
-        return {
-          color: '#FFFFFF',
-          roughness: 0.1,
-          normalScale: 0.2,
-          displacement: 0.001, // Nearly flat
-        };
-    }
-  };
+const Pen3D = ({ position, rotation, canDraw, onDrawPoint, leadY = -0.98, tipMaterial, nibAzimuth = 0 }: Tool3DProps & { canDraw?: boolean; onDrawPoint?: (point: THREE.Vector3, contact?: StrokeContact) => void; leadY?: number; tipMaterial: PenTip; nibAzimuth?: number }) => {
+  const tipRef = useRef<THREE.Group>(null);
+  const ballRef = useRef<THREE.Mesh>(null);
+  const tipWorld = useMemo(() => new THREE.Vector3(), []);
+  const lastTipWorld = useMemo(() => new THREE.Vector3(), []);
+  const rollAxis = useMemo(() => new THREE.Vector3(), []);
+  const ballOrientation = useMemo(() => new THREE.Quaternion(), []);
+  const wasTouchingRef = useRef(false);
+  const tip = PEN_TIPS[tipMaterial];
 
-  const props = getSurfaceProperties();
+  // Point the barrel's cone narrows to, just above whatever sits at the tip
+  const coneBottom = leadY + (tip.model === 'nib' ? PEN_NIB_LENGTH : tip.model === 'felt' ? PEN_FELT_LENGTH : PEN_BALL_RADIUS * 1.2);
+  const coneLength = PEN_GRIP_Y - coneBottom;
+  const feltRadius = Math.max(0.004, (tip.width * STROKE_WIDTH_TO_WORLD) / 2);
 
-  // Enhanced procedural surface with realistic micro-topology
-  const [normalMap, displacementMesh] = useMemo(() => {
-    const size = 256; // Higher res for better topology
-    const normalData = new Uint8Array(size * size * 4);
-    const displacementData = new Float32Array(size * size);
-    
-    for (let i = 0; i < size; i++) {
-      for (let j = 0; j < size; j++) {
-        const index = i * size + j;
-        
-        // Multi-octave noise for realistic paper/canvas texture
-        const x = i / size;
-        const y = j / size;
-        
-        let noise = 0;
-        noise += Math.sin(x * 100) * Math.cos(y * 100) * 0.3; // Fine grain
-        noise += Math.sin(x * 20) * Math.cos(y * 20) * 0.4;   // Medium grain
-        noise += Math.sin(x * 5) * Math.cos(y * 5) * 0.3;     // Coarse grain
-        
-        // Surface-specific texture adjustments
-        if (surfaceType === 'canvas') {
-          noise += Math.sin(x * 200) * Math.sin(y * 150) * 0.2; // Canvas weave
-        } else if (surfaceType === 'paper') {
-          noise += (Math.random() - 0.5) * 0.1; // Paper fiber randomness
-        }
-        
-        const normalizedNoise = (noise + 1) * 0.5; // 0-1 range
-        const height = normalizedNoise * props.displacement;
-        
-        // Store displacement for 3D topology
-        displacementData[index] = height;
-        
-        // Calculate normals for lighting
-        const normalValue = Math.floor(128 + (normalizedNoise - 0.5) * 127);
-        normalData[index * 4] = normalValue;
-        normalData[index * 4 + 1] = normalValue;
-        normalData[index * 4 + 2] = 255; // Point up mostly
-        normalData[index * 4 + 3] = 255;
+  useFrame(() => {
+    if (!tipRef.current) return;
+    tipRef.current.getWorldPosition(tipWorld);
+    const touching = isTouchingSurface(tipWorld);
+
+    // The ball rolls over the surface, turning as far as the pen travels
+    const ball = ballRef.current;
+    if (ball && touching && wasTouchingRef.current) {
+      const dx = tipWorld.x - lastTipWorld.x;
+      const dz = tipWorld.z - lastTipWorld.z;
+      const distance = Math.hypot(dx, dz);
+      if (distance > 1e-6) {
+        rollAxis.set(dz, 0, -dx).divideScalar(distance);
+        rollAxis.applyQuaternion(ball.getWorldQuaternion(ballOrientation).invert());
+        ball.rotateOnAxis(rollAxis, distance / PEN_BALL_RADIUS);
       }
     }
-    
-    const normalTexture = new THREE.DataTexture(normalData, size, size, THREE.RGBAFormat);
-    normalTexture.wrapS = normalTexture.wrapT = THREE.RepeatWrapping;
-    normalTexture.repeat.set(surfaceType === 'canvas' ? 4 : surfaceType === 'paper' ? 2 : 1, surfaceType === 'canvas' ? 3 : surfaceType === 'paper' ? 1.5 : 1);
-    normalTexture.needsUpdate = true;
-    
-    // Create displacement texture
-    const displacementTexture = new THREE.DataTexture(displacementData, size, size, THREE.RedFormat, THREE.FloatType);
-    displacementTexture.wrapS = displacementTexture.wrapT = THREE.RepeatWrapping;
-    displacementTexture.repeat.copy(normalTexture.repeat);
-    displacementTexture.needsUpdate = true;
-    
-    return [normalTexture, displacementTexture];
-  }, [surfaceType, props.displacement]);
+    wasTouchingRef.current = touching;
+    lastTipWorld.copy(tipWorld);
+
+    if (canDraw && onDrawPoint && touching) {
+      onDrawPoint(new THREE.Vector3(tipWorld.x, SURFACE_Y + 0.001, tipWorld.z), {
+        shape: tip.model === 'nib' ? 'line' : 'point',
+        area: tip.model === 'felt' ? Math.PI * feltRadius * feltRadius : 0,
+        // A nib's footprint lies along its edge (dab rotation runs from +X towards +Z)
+        orientation: tip.model === 'nib' ? Math.PI / 2 - nibAzimuth : rotation[1]
+      });
+    }
+  });
+
+  return (
+    <group position={position} rotation={rotation}>
+      {/* Barrel */}
+      <mesh position={[0, (PEN_TOP_Y + PEN_GRIP_Y + PEN_GRIP_LENGTH) / 2, 0]}>
+        <cylinderGeometry args={[0.035, 0.035, PEN_TOP_Y - PEN_GRIP_Y - PEN_GRIP_LENGTH, 16]} />
+        <meshPhysicalMaterial color="#1E3A8A" roughness={0.3} metalness={0.1} clearcoat={0.8} />
+      </mesh>
+
+      {/* Clip */}
+      <mesh position={[0.04, PEN_TOP_Y - 0.2, 0]}>
+        <boxGeometry args={[0.01, 0.35, 0.02]} />
+        <meshPhysicalMaterial color="#C0C0C0" roughness={0.2} metalness={0.9} />
+      </mesh>
+
+      {/* Rubber grip */}
+      <mesh position={[0, PEN_GRIP_Y + PEN_GRIP_LENGTH / 2, 0]}>
+        <cylinderGeometry args={[0.038, 0.038, PEN_GRIP_LENGTH, 16]} />
+        <meshPhysicalMaterial color="#1A1A1A" roughness={0.95} metalness={0.0} />
+      </mesh>
+
+      {/* Cone narrowing to the tip */}
+      <mesh position={[0, coneBottom + coneLength / 2, 0]}>
+        <cylinderGeometry args={[0.035, tip.model === 'felt' ? feltRadius * 1.5 : 0.006, coneLength, 16]} />
+        <meshPhysicalMaterial color="#C0C0C0" roughness={0.25} metalness={0.85} />
+      </mesh>
+
+      {tip.model === 'ball' && (
+        // Faceted so its rolling shows
+        <mesh ref={ballRef} position={[0, leadY + PEN_BALL_RADIUS, 0]}>
+          <sphereGeometry args={[PEN_BALL_RADIUS, 8, 6]} />
+          <meshPhysicalMaterial color="#9A9A9A" roughness={0.15} metalness={1} flatShading />
+        </mesh>
+      )}
+      {tip.model === 'nib' && (
+        // Flattened across its edge and turned so the edge keeps its azimuth however the pen yaws
+        <mesh position={[0, leadY + PEN_NIB_LENGTH / 2, 0]} rotation={[0, nibAzimuth - Math.PI / 2 - rotation[1], 0]} scale={[1, 1, 0.25]}>
+          <cylinderGeometry args={[0.022, 0.001, PEN_NIB_LENGTH, 4]} />
+          <meshPhysicalMaterial color="#D4AF37" roughness={0.2} metalness={1} />
+        </mesh>
+      )}
+      {tip.model === 'felt' && (
+        <mesh position={[0, leadY + PEN_FELT_LENGTH / 2, 0]}>
+          <cylinderGeometry args={[feltRadius, feltRadius * 0.7, PEN_FELT_LENGTH, 12]} />
+          <meshPhysicalMaterial color="#2F2F2F" roughness={1} metalness={0.0} />
+        </mesh>
+      )}
+
+      <group ref={tipRef} position={[0, leadY, 0]} />
+    </group>
+  );
+};
+
+const Crayon3D = ({ position, rotation, pressure, canDraw, onDrawPoint, leadY = -0.98, crayonTip }: Tool3DProps & { canDraw?: boolean; onDrawPoint?: (point: THREE.Vector3, contact?: StrokeContact) => void; leadY?: number; crayonTip: CrayonTip }) => {
+  const tipRef = useRef<THREE.Group>(null);
+  const tipWorld = useMemo(() => new THREE.Vector3(), []);
+  // Bluntness in visible steps; the point is rebuilt only when it changes enough to see
+  const [wornStep, setWornStep] = useState(0);
+  const pointRadius = CRAYON_POINT_RADIUS + (CRAYON_RADIUS - CRAYON_POINT_RADIUS) * 0.8 * (wornStep / CRAYON_WEAR_STEPS);
+  const pointTop = leadY + CRAYON_POINT_LENGTH;
+
+  useFrame(() => {
+    const step = Math.round(crayonTip.bluntness * CRAYON_WEAR_STEPS);
+    if (step !== wornStep) setWornStep(step);
+
+    if (!canDraw || !onDrawPoint || !tipRef.current) return;
+    tipRef.current.getWorldPosition(tipWorld);
+    if (!isTouchingSurface(tipWorld)) return;
+    const radius = crayonTip.getContactRadius(Math.min(1, pressure));
+    onDrawPoint(new THREE.Vector3(tipWorld.x, SURFACE_Y + 0.001, tipWorld.z), {
+      shape: 'oval',
+      area: Math.PI * radius * radius,
+      orientation: rotation[1]
+    });
+  });
+
+  return (
+    <group position={position} rotation={rotation}>
+      {/* Wax stick */}
+      <mesh position={[0, (CRAYON_TOP_Y + pointTop) / 2, 0]}>
+        <cylinderGeometry args={[CRAYON_RADIUS, CRAYON_RADIUS, CRAYON_TOP_Y - pointTop, 16]} />
+        <meshPhysicalMaterial color="#2F2F2F" roughness={0.6} metalness={0.0} clearcoat={0.3} />
+      </mesh>
+
+      {/* Paper wrapper, stopping short of the point */}
+      <mesh position={[0, (CRAYON_TOP_Y + CRAYON_WRAPPER_BOTTOM_Y) / 2, 0]}>
+        <cylinderGeometry args={[CRAYON_RADIUS + 0.003, CRAYON_RADIUS + 0.003, CRAYON_TOP_Y - CRAYON_WRAPPER_BOTTOM_Y, 16, 1, true]} />
+        <meshPhysicalMaterial color="#E8D9B0" roughness={0.95} metalness={0.0} side={THREE.DoubleSide} />
+      </mesh>
+      <mesh position={[0, CRAYON_WRAPPER_BOTTOM_Y + 0.15, 0]}>
+        <cylinderGeometry args={[CRAYON_RADIUS + 0.004, CRAYON_RADIUS + 0.004, 0.06, 16, 1, true]} />
+        <meshPhysicalMaterial color="#2F2F2F" roughness={0.9} metalness={0.0} side={THREE.DoubleSide} />
+      </mesh>
+
+      {/* Point, wearing flat as the crayon is used */}
+      <mesh position={[0, leadY + CRAYON_POINT_LENGTH / 2, 0]}>
+        <cylinderGeometry args={[CRAYON_RADIUS, pointRadius, CRAYON_POINT_LENGTH, 16]} />
+        <meshPhysicalMaterial color="#2F2F2F" roughness={0.6} metalness={0.0} clearcoat={0.3} />
+      </mesh>
+
+      <group ref={tipRef} position={[0, leadY, 0]} />
+    </group>
+  );
+};
+
+const BlendingStump3D = ({ position, rotation, pressure, canDraw, onDrawPoint, leadY = -0.98, stump }: Tool3DProps & { canDraw?: boolean; onDrawPoint?: (point: THREE.Vector3, contact?: StrokeContact) => void; leadY?: number; stump: BlendingStumpSettings }) => {
+  const tipRef = useRef<THREE.Group>(null);
+  const tipWorld = useMemo(() => new THREE.Vector3(), []);
+  const { bodyRadius, pointLength } = STUMP_TIPS[stump.tip];
+  const pointTop = leadY + pointLength;
+
+  useFrame(() => {
+    if (!canDraw || !onDrawPoint || !tipRef.current) return;
+    tipRef.current.getWorldPosition(tipWorld);
+    if (!isTouchingSurface(tipWorld)) return;
+    const radius = getStumpContactRadius(stump, Math.min(1, pressure));
+    onDrawPoint(new THREE.Vector3(tipWorld.x, SURFACE_Y + 0.001, tipWorld.z), {
+      shape: 'oval',
+      area: Math.PI * radius * radius,
+      orientation: rotation[1]
+    });
+  });
+
+  return (
+    <group position={position} rotation={rotation}>
+      {/* Rolled paper stick */}
+      <mesh position={[0, (STUMP_TOP_Y + pointTop) / 2, 0]}>
+        <cylinderGeometry args={[bodyRadius, bodyRadius, STUMP_TOP_Y - pointTop, 16]} />
+        <meshPhysicalMaterial color={STUMP_PAPER_COLOR} roughness={0.95} metalness={0.0} />
+      </mesh>
+
+      {/* Point, grey from the graphite it has worked */}
+      <mesh position={[0, leadY + pointLength / 2, 0]}>
+        <cylinderGeometry args={[bodyRadius, STUMP_TIPS[stump.tip].radius, pointLength, 16]} />
+        <meshPhysicalMaterial color="#8C8880" roughness={0.95} metalness={0.0} />
+      </mesh>
+
+      <group ref={tipRef} position={[0, leadY, 0]} />
+    </group>
+  );
+};
+
+const MechanicalPencil3D = ({ position, rotation, pressure, isDrawing, canDraw, onDrawPoint, leadY = -0.98, lead, onLeadSnap }: Tool3DProps & { canDraw?: boolean; onDrawPoint?: (point: THREE.Vector3, contact?: StrokeContact) => void; leadY?: number; lead: MechanicalPencilSettings; onLeadSnap?: () => void }) => {
+  const tipRef = useRef<THREE.Group>(null);
+  const tipWorld = useMemo(() => new THREE.Vector3(), []);
+  const snappedRef = useRef(false);
+  const extension = lead.leadExtension * MM_TO_WORLD;
+  const leadRadius = (lead.leadSize * MM_TO_WORLD) / 2;
+  const sleeveBottom = leadY + extension;
+  const coneBottom = sleeveBottom + PENCIL_SLEEVE_LENGTH;
+  const gripBottom = coneBottom + PENCIL_CONE_LENGTH;
+
+  // A fresh length of lead can take the load again
+  useEffect(() => {
+    snappedRef.current = false;
+  }, [lead.leadExtension]);
+
+  useFrame(() => {
+    if (!tipRef.current || lead.leadExtension <= 0 || snappedRef.current) return;
+    tipRef.current.getWorldPosition(tipWorld);
+    if (!isTouchingSurface(tipWorld)) return;
+
+    if (isDrawing && isLeadOverloaded(lead, pressure)) {
+      snappedRef.current = true;
+      onLeadSnap?.();
+      return;
+    }
+
+    if (canDraw && onDrawPoint) {
+      onDrawPoint(new THREE.Vector3(tipWorld.x, SURFACE_Y + 0.001, tipWorld.z), {
+        shape: 'point',
+        area: Math.PI * leadRadius * leadRadius,
+        orientation: rotation[1]
+      });
+    }
+  });
+
+  return (
+    <group position={position} rotation={rotation}>
+      {/* Barrel */}
+      <mesh position={[0, (PENCIL_TOP_Y + gripBottom + PENCIL_GRIP_LENGTH) / 2, 0]}>
+        <cylinderGeometry args={[0.035, 0.035, PENCIL_TOP_Y - gripBottom - PENCIL_GRIP_LENGTH, 6]} />
+        <meshPhysicalMaterial color="#4A5A6A" roughness={0.4} metalness={0.3} clearcoat={0.5} />
+      </mesh>
+
+      {/* Knurled grip */}
+      <mesh position={[0, gripBottom + PENCIL_GRIP_LENGTH / 2, 0]}>
+        <cylinderGeometry args={[0.037, 0.037, PENCIL_GRIP_LENGTH, 24]} />
+        <meshPhysicalMaterial color="#8A8A8A" roughness={0.7} metalness={0.8} />
+      </mesh>
+
+      {/* Clip and push button */}
+      <mesh position={[0.04, PENCIL_TOP_Y - 0.2, 0]}>
+        <boxGeometry args={[0.01, 0.3, 0.02]} />
+        <meshPhysicalMaterial color="#C0C0C0" roughness={0.2} metalness={0.9} />
+      </mesh>
+      <mesh position={[0, PENCIL_TOP_Y + 0.04, 0]}>
+        <cylinderGeometry args={[0.025, 0.025, 0.08, 12]} />
+        <meshPhysicalMaterial color="#C0C0C0" roughness={0.2} metalness={0.9} />
+      </mesh>
+
+      {/* Cone and lead sleeve */}
+      <mesh position={[0, coneBottom + PENCIL_CONE_LENGTH / 2, 0]}>
+        <cylinderGeometry args={[0.035, 0.008, PENCIL_CONE_LENGTH, 16]} />
+        <meshPhysicalMaterial color="#C0C0C0" roughness={0.2} metalness={0.9} />
+      </mesh>
+      <mesh position={[0, sleeveBottom + PENCIL_SLEEVE_LENGTH / 2, 0]}>
+        <cylinderGeometry args={[Math.max(0.006, leadRadius + 0.002), Math.max(0.006, leadRadius + 0.002), PENCIL_SLEEVE_LENGTH, 12]} />
+        <meshPhysicalMaterial color="#C0C0C0" roughness={0.2} metalness={0.9} />
+      </mesh>
+
+      {/* Lead, the same diameter all the way down */}
+      {extension > 0 && (
+        <mesh position={[0, leadY + extension / 2, 0]}>
+          <cylinderGeometry args={[leadRadius, leadRadius, extension, 8]} />
+          <meshPhysicalMaterial color="#2B2B2B" roughness={0.35} metalness={0.4} />
+        </mesh>
+      )}
+
+      <group ref={tipRef} position={[0, leadY, 0]} />
+    </group>
+  );
+};
+
+// Crumbs shed by eraser strokes, lying on the surface where they fell
+const EraserCrumbs = ({ segments }: { segments: StrokeSegment[] }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const crumbs = useMemo(
+    () => segments.flatMap(segment => {
+      const color = new THREE.Color(segment.eraser ? ERASER_MATERIALS[segment.eraser.material].color : '#FFFFFF');
+      return scatterCrumbs(segment).map(crumb => ({ ...crumb, color }));
+    }).slice(-MAX_CRUMBS),
+    [segments]
+  );
+
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const matrix = new THREE.Matrix4();
+    const rotation = new THREE.Quaternion();
+    const up = new THREE.Vector3(0, 1, 0);
+    crumbs.forEach((crumb, i) => {
+      rotation.setFromAxisAngle(up, crumb.rotation);
+      matrix.compose(
+        new THREE.Vector3(crumb.x, SURFACE_Y + crumb.size * 0.4, crumb.z),
+        rotation,
+        new THREE.Vector3(crumb.size * 1.6, crumb.size * 0.8, crumb.size)
+      );
+      mesh.setMatrixAt(i, matrix);
+      mesh.setColorAt(i, crumb.color);
+    });
+    mesh.count = crumbs.length;
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [crumbs]);
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, MAX_CRUMBS]} visible={crumbs.length > 0} frustumCulled={false}>
+      <dodecahedronGeometry args={[1, 0]} />
+      <meshStandardMaterial roughness={0.9} />
+    </instancedMesh>
+  );
+};
+
+// `finishMap` holds wetness in R, a roughness factor in G and metalness in B, so wet
+// paint reads as glossy and heavy graphite catches the light with a metallic sheen
+const DrawingSurface = ({ topology, colorMap, finishMap }: { topology: SurfaceTopology; colorMap?: THREE.Texture; finishMap?: THREE.Texture }) => {
+  const surfaceRef = useRef<THREE.Mesh>(null);
+  const { surfaceType } = topology;
+  const props = getSurfaceProperties(surfaceType);
 
   return (
     <mesh ref={surfaceRef} rotation={[-Math.PI / 2, 0, 0]} position={[0, -1, 0]}>
@@ -266,13 +653,16 @@ const DrawingSurface = ({ surfaceType, colorMap, displacementMap }: { surfaceTyp
       <meshPhysicalMaterial 
         color={props.color}
         roughness={props.roughness}
-        metalness={0.0}
-        clearcoat={surfaceType === 'whiteboard' ? 0.8 : 0.0}
+        roughnessMap={finishMap}
+        metalness={finishMap ? 1.0 : 0.0}
+        metalnessMap={finishMap}
+        clearcoat={surfaceType === 'whiteboard' ? 0.8 : finishMap ? 1.0 : 0.0}
+        clearcoatMap={surfaceType === 'whiteboard' ? null : finishMap}
         clearcoatRoughness={0.1}
-        normalMap={normalMap as any}
+        normalMap={topology.normalMap}
         normalScale={new THREE.Vector2(props.normalScale, props.normalScale)}
         map={colorMap as any}
-        displacementMap={displacementMesh as any}
+        displacementMap={topology.displacementMap}
         displacementScale={props.displacement}
       />
     </mesh>
@@ -288,7 +678,26 @@ const Scene = ({
   surfaceType,
   mode,
   roll,
-  leadY
+  leadY,
+  segments,
+  layers,
+  activeLayerId,
+  paintColor,
+  paintLoad,
+  strokePaint,
+  studioClock,
+  replayStudioTime,
+  showWetness,
+  toolSettings,
+  onToolSettingsChange,
+  onBrushTravel,
+  onSegmentComplete,
+  leadWear,
+  onLeadWearChange,
+  pencilLength,
+  onStylusInput,
+  onStylusLift,
+  handleRef
 }: {
   activeTool: Tool3DProps['type'];
   pressure: number;
@@ -299,16 +708,35 @@ const Scene = ({
   mode: InteractionMode;
   roll: number;
   leadY: number;
+  segments: StrokeSegment[];
+  layers: ArtworkLayer[];
+  activeLayerId: string;
+  paintColor?: string;
+  paintLoad: number;
+  strokePaint?: StrokePaint;
+  studioClock: StudioClock;
+  replayStudioTime: number | null;
+  showWetness: boolean;
+  toolSettings: ToolPhysics;
+  onToolSettingsChange: ToolPhysicsChange;
+  onBrushTravel?: (pressure: number, velocity: number, distance: number) => void;
+  onSegmentComplete: (segment: StrokeSegment) => void;
+  leadWear: LeadWearState | null;
+  onLeadWearChange?: (state: LeadWearState) => void;
+  pencilLength: number;
+  onStylusInput?: (reading: StylusReading) => void;
+  onStylusLift?: () => void;
+  handleRef?: Ref<ArtCanvas3DHandle>;
 }) => {
-  const { camera, raycaster, pointer, scene } = useThree();
+  const { camera, raycaster, pointer, scene, gl } = useThree();
+  const { toast } = useToast();
   const [toolPosition, setToolPosition] = useState<[number, number, number]>([0, 0.5, 0]);
   const [toolRotation, setToolRotation] = useState<[number, number, number]>([0, 0, angle]);
   const [toolVelocity, setToolVelocity] = useState<[number, number, number]>([0, 0, 0]);
   const [grabPoint, setGrabPoint] = useState<[number, number, number]>([0, 0, 0]);
   const [grabOffset, setGrabOffset] = useState<[number, number, number]>([0, 0, 0]);
   const [isDragging, setIsDragging] = useState(false);
-  const [segments, setSegments] = useState<{ points: THREE.Vector3[]; width: number; color: string; opacity: number; tool: string }[]>([]);
-  const [activeSegment, setActiveSegment] = useState<{ points: THREE.Vector3[]; width: number; color: string; opacity: number; tool: string } | null>(null);
+  const [activeSegment, setActiveSegment] = useState<StrokeSegment | null>(null);
   const drawingActiveRef = useRef(false);
   const [surfaceContactForce, setSurfaceContactForce] = useState(0);
   const [planeDragOffset, setPlaneDragOffset] = useState<[number, number]>([0, 0]);
@@ -318,94 +746,282 @@ const Scene = ({
   // Advanced drawing and wear tracking
   const { strokes, currentStroke, startStroke, addPointToStroke, endStroke, clearStrokes } = useDrawingStrokeSystem();
   const [coordinateEngine] = useState(() => new CoordinateSmoothingEngine());
-  const [leadWear, setLeadWear] = useState(0);
+  const [avgLeadWear, setAvgLeadWear] = useState(0);
   const [wearVertices, setWearVertices] = useState<{ position: THREE.Vector3; wear: number }[]>([]);
   const [showWearHUD, setShowWearHUD] = useState(false);
   const [surfaceMesh, setSurfaceMesh] = useState<THREE.Mesh | null>(null);
+  // Single lead geometry shared by every graphite tool so wear persists across switches
+  const leadGeometry = useMemo(() => new LeadTipGeometry(), []);
+  // Likewise the crayon keeps its worn point, and the pen its ink feed between strokes
+  const crayonTip = useMemo(() => new CrayonTip(), []);
+  const inkFeed = useMemo(() => new InkFeed(), []);
+  const eraserBlock = useMemo(() => new EraserBlock(), []);
+  const bristleSettings = useMemo(() => getBristleSettings(toolSettings.brush), [toolSettings.brush]);
+  // Paper/canvas relief shared by the surface mesh and the mark layer's grain
+  const topology = useMemo(() => createSurfaceTopology(surfaceType), [surfaceType]);
+  const markStack = useMemo(() => new MarkStack(gl), [gl]);
+  const markOverlayRef = useRef<THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>>(null);
+
+  useEffect(() => () => markStack.dispose(), [markStack]);
+
+  // The stroke in progress belongs to the active layer, its far end still open
+  const segmentsByLayer = useMemo(
+    () => groupSegmentsByLayer(layers, activeSegment ? [...segments, { ...activeSegment, open: true }] : segments),
+    [layers, segments, activeSegment]
+  );
+  const activeLayer = layers.find(layer => layer.id === activeLayerId);
+  const canDrawOnLayer = !!activeLayer && activeLayer.visible && !activeLayer.locked;
+  const eraserSegments = useMemo(
+    () => layers.filter(layer => layer.visible).flatMap(layer =>
+      (segmentsByLayer.get(layer.id) ?? []).filter(segment => segment.eraser)
+    ),
+    [layers, segmentsByLayer]
+  );
+
+  const lastWetnessUpdateRef = useRef(-Infinity);
+  const heatmapUniforms = useMemo(() => ({ tWetness: { value: markStack.wetnessTexture } }), [markStack]);
+
+  // Marks live in the surface texture: stamp new samples as they arrive, repaint on anything else
+  useEffect(() => {
+    markStack.sync(layers, segmentsByLayer, topology);
+    lastWetnessUpdateRef.current = -Infinity; // New paint shows its gloss on the next frame
+  }, [markStack, layers, segmentsByLayer, topology]);
+
+  // Wet paint dries on the studio clock, or on the Timeline's while a replay runs
+  useFrame(state => {
+    if (state.clock.elapsedTime - lastWetnessUpdateRef.current < WETNESS_REFRESH_INTERVAL) return;
+    lastWetnessUpdateRef.current = state.clock.elapsedTime;
+    markStack.updateWetness(layers, replayStudioTime ?? studioClock.now());
+  });
+
+  // Apply wear coming from a loaded document; an empty snapshot means a fresh tip
+  useEffect(() => {
+    if (leadWear?.length) {
+      leadGeometry.restoreWear(leadWear);
+    } else {
+      leadGeometry.resetWear();
+    }
+  }, [leadGeometry, leadWear]);
+
+  const handleWearChange = () => {
+    onLeadWearChange?.(leadGeometry.getWearState());
+  };
   
   const toolRef = useRef<THREE.Group>(null);
+  const controlsRef = useRef<ElementRef<typeof OrbitControls>>(null);
+  const surfaceGroupRef = useRef<THREE.Group>(null);
+  const studioPropsRef = useRef<THREE.Group>(null);
+  const crumbsRef = useRef<THREE.Group>(null);
+  const heatmapRef = useRef<THREE.Mesh>(null);
   const intersectionPoint = useRef<THREE.Vector3>(new THREE.Vector3());
   const lastToolPosition = useRef<[number, number, number]>([0, 0.5, 0]);
   const lastMoveTime = useRef<number>(0);
+  const stylusAzimuthRef = useRef<number | null>(null); // Lean of a tilting pen on the tablet, while it draws
+  const stylusDownRef = useRef(false); // A pen touching the tablet is driving pressure and tilt
+  const viewDirection = useMemo(() => new THREE.Vector3(), []);
   const lastDrawTimeRef = useRef<number>(0);
+  const toolTravelRef = useRef<{ position: THREE.Vector3; timestamp: number } | null>(null);
+  const leadExtensionRef = useRef(0); // Mechanical pencil lead left out of the sleeve as the stroke wears it
   // Stroke style helpers and drawing point handler
-  const getSurfaceEraseColor = () => {
-    switch (surfaceType) {
-      case 'canvas':
-        return '#F5F5DC';
-      case 'paper':
-        return '#FFFEF7';
-      default:
-        return '#FFFFFF';
-    }
-  };
+  const getSurfaceEraseColor = () => getSurfaceProperties(surfaceType).color;
 
-  const computeStrokeStyle = (tool: string, eff: number) => {
+  // Style of a single sample. Pressure drives darkness (and width for soft media),
+  // laying a pencil or crayon on its side broadens the mark, fast brush or pen
+  // movement thins and lightens it, and a brush running out of paint or a pen
+  // short of ink fades. A crayon draws as wide as its worn point, a mechanical
+  // pencil as wide as its lead and a fountain pen by its nib's angle to the stroke.
+  // An eraser rubs as wide as its face and lifts what its material can, and a
+  // blending stump works as wide as its pressed point.
+  const computeStrokeStyle = (tool: string, eff: number, velocity = 0, tilt = 0, load = 1, contact = DEFAULT_STROKE_CONTACT) => {
+    const slowness = 1 / (1 + velocity * 0.5);
+    const side = 1 + Math.abs(Math.sin(tilt)) * 0.8;
     if (tool === 'eraser') {
-      return { width: 6 + eff * 10, opacity: 1.0, color: getSurfaceEraseColor() };
+      // Opacity is the share of graphite one pass lifts; the mark layer works out ink from it
+      return {
+        width: eraserBlock.getWidth(contact.area) * (0.8 + 0.4 * eff),
+        opacity: eraserBlock.getLift(toolSettings.eraser, eff),
+        color: getSurfaceEraseColor()
+      };
     }
     if (tool === 'brush') {
-      return { width: 2 + eff * 6, opacity: Math.min(1, 0.5 + eff * 0.5), color: '#2F2F2F' };
+      const wetness = 0.25 + 0.75 * Math.sqrt(load);
+      return {
+        width: (2 + eff * 6) * (0.6 + 0.4 * slowness) * (0.8 + 0.2 * load),
+        opacity: Math.min(1, 0.5 + eff * 0.5) * wetness,
+        color: paintColor ?? '#2F2F2F'
+      };
     }
     if (tool === 'pen') {
-      return { width: 2 + eff * 2, opacity: Math.min(1, 0.7 + eff * 0.3), color: '#2F2F2F' };
+      const { tipMaterial, nib } = toolSettings.pen;
+      const opacity = Math.min(1, 0.7 + eff * 0.3) * (0.85 + 0.15 * slowness) * (0.4 + 0.6 * load);
+      if (tipMaterial === 'fountain') {
+        // Width follows the stroke's direction against the nib's edge; ink floods where the nib rests
+        const pooled = getInkPooling(nib, velocity);
+        return {
+          width: getNibLineWidth(nib, targetAzimuth, getNibEdgeAzimuth(roll), eff) * (1 + 0.5 * pooled),
+          opacity: Math.min(1, opacity * (1 + 0.6 * pooled)),
+          color: '#2F2F2F'
+        };
+      }
+      const tip = PEN_TIPS[tipMaterial];
+      return { width: tip.width + eff * tip.pressureWidth, opacity, color: '#2F2F2F' };
     }
     if (tool === 'crayon') {
-      return { width: 3 + eff * 4, opacity: Math.min(1, 0.4 + eff * 0.6), color: '#2F2F2F' };
+      const pointWidth = contact.area > 0 ? (2 * Math.sqrt(contact.area / Math.PI)) / STROKE_WIDTH_TO_WORLD : 3 + eff * 4;
+      return {
+        width: pointWidth * side,
+        opacity: Math.min(1, (0.4 + eff * 0.6) * getCrayonCoverage(toolSettings.crayon)),
+        color: '#2F2F2F'
+      };
+    }
+    if (tool === 'blendingStump') {
+      // Opacity is the share of graphite one pass takes up; the mark layer carries it along
+      const contactWidth = (2 * Math.sqrt(contact.area / Math.PI)) / STROKE_WIDTH_TO_WORLD;
+      return { width: contactWidth, opacity: getStumpPickup(toolSettings.blendingStump, eff), color: '#2F2F2F' };
+    }
+    if (tool === 'mechanicalPencil') {
+      const grade = getLeadGradeScale(toolSettings.mechanicalPencil.leadHardness);
+      return {
+        width: getLeadStrokeWidth(toolSettings.mechanicalPencil) * grade.width,
+        opacity: Math.min(1, (0.3 + eff * 0.7) * grade.darkness),
+        color: '#2F2F2F'
+      };
     }
-    // pencil/mechanicalPencil: constant width, pressure affects darkness
-    return { width: 2, opacity: Math.min(1, 0.3 + eff * 0.7), color: '#2F2F2F' };
+    // pencil: pressure mostly affects darkness, with a slight swell; softer grades go darker and broader
+    const grade = getLeadGradeScale(toolSettings.pencil.leadHardness);
+    return {
+      width: (1.6 + eff * 0.8) * side * grade.width,
+      opacity: Math.min(1, (0.3 + eff * 0.7) * grade.darkness),
+      color: '#2F2F2F'
+    };
   };
 
   const finalizeActiveSegment = () => {
     if (activeSegment && activeSegment.points.length > 1) {
-      setSegments(prev => [...prev, activeSegment]);
+      onSegmentComplete(activeSegment);
+    }
+    if (activeSegment?.tool === 'mechanicalPencil' && leadExtensionRef.current !== toolSettings.mechanicalPencil.leadExtension) {
+      onToolSettingsChange('mechanicalPencil', { leadExtension: leadExtensionRef.current });
     }
     setActiveSegment(null);
     drawingActiveRef.current = false;
   };
 
-  const handleDrawPoint = (point: THREE.Vector3) => {
+  // Too much pressure on too much lead snaps it off at the sleeve
+  const handleLeadSnap = () => {
+    finalizeActiveSegment();
+    onToolSettingsChange('mechanicalPencil', { leadExtension: 0 });
+    toast({ title: "Lead snapped", description: "Click to advance more lead (K)" });
+  };
+
+  // Capture one sample of the tool's state; earlier samples keep their own style so strokes taper and swell
+  const handleDrawPoint = (point: THREE.Vector3, contact: StrokeContact = DEFAULT_STROKE_CONTACT, bristles?: number[]) => {
+    if (!canDrawOnLayer) return; // Locked and hidden layers take no marks
+    const isBrush = activeTool === 'brush';
+    const isStarting = !drawingActiveRef.current || !activeSegment;
+    if (isStarting && isBrush && paintLoad <= EMPTY_BRUSH_LOAD) return; // A dry brush leaves nothing to start a stroke with
     const eff = Math.min(1, pressure + surfaceContactForce * 0.05);
-    const style = computeStrokeStyle(activeTool, eff);
+    const [tilt, azimuth] = toolRotation;
+    const timestamp = Date.now();
+
+    const travelled = toolTravelRef.current;
+    if (isStarting) {
+      toolTravelRef.current = { position: point.clone(), timestamp };
+      inkFeed.start(toolSettings.pen);
+      leadExtensionRef.current = toolSettings.mechanicalPencil.leadExtension;
+    } else if (travelled) {
+      // Distance covered since the last contact spends paint, feeds ink and wears crayon, lead and eraser down
+      const distance = travelled.position.distanceTo(point);
+      if (distance > 0.001) {
+        const velocity = distance / Math.max(0.001, (timestamp - travelled.timestamp) / 1000);
+        toolTravelRef.current = { position: point.clone(), timestamp };
+        switch (activeTool) {
+          case 'brush':
+            onBrushTravel?.(eff, velocity, distance);
+            break;
+          case 'pen':
+            inkFeed.advance(distance, velocity, eff);
+            break;
+          case 'crayon':
+            crayonTip.wear(distance, eff, toolSettings.crayon);
+            break;
+          case 'mechanicalPencil':
+            leadExtensionRef.current = wearLead(
+              leadExtensionRef.current,
+              distance,
+              eff,
+              getLeadGradeScale(toolSettings.mechanicalPencil.leadHardness).wear
+            );
+            break;
+          case 'eraser':
+            eraserBlock.rub(distance, eff, toolSettings.eraser);
+            break;
+        }
+      }
+    }
+    const load = isBrush ? paintLoad : activeTool === 'pen' ? inkFeed.flow : 1;
+
+    const createSample = (velocity: number) => {
+      const style = computeStrokeStyle(activeTool, eff, velocity, tilt, load, contact);
+      const sample = createStrokePoint(point, {
+        pressure: eff,
+        timestamp,
+        velocity,
+        tilt,
+        azimuth,
+        roll,
+        contact,
+        width: style.width,
+        opacity: style.opacity,
+        load,
+        bristles
+      });
+      return { sample, color: style.color };
+    };
 
-    if (!drawingActiveRef.current || !activeSegment) {
-      setActiveSegment({ points: [point.clone()], ...style, tool: activeTool });
+    if (isStarting) {
+      const { sample, color } = createSample(0);
+      setActiveSegment({
+        id: `seg_${timestamp}_${Math.random()}`,
+        points: [sample],
+        width: sample.width,
+        opacity: sample.opacity,
+        color,
+        tool: activeTool,
+        layerId: activeLayerId,
+        laidAt: studioClock.now(),
+        ...(isBrush && strokePaint ? { paint: strokePaint } : {}),
+        ...(activeTool === 'eraser'
+          ? { eraser: { material: toolSettings.eraser.material, residue: toolSettings.eraser.residueProduction } }
+          : {}),
+        ...(activeTool === 'pencil' || activeTool === 'mechanicalPencil'
+          ? { leadHardness: toolSettings[activeTool].leadHardness }
+          : {})
+      });
       drawingActiveRef.current = true;
       lastDrawTimeRef.current = performance.now();
       return;
     }
 
-    // Always keep style in sync for live pressure/opacity changes
-    setActiveSegment(prev => (prev ? { ...prev, width: style.width, opacity: style.opacity, color: style.color } : prev));
-
     setActiveSegment(prev => {
       if (!prev) return prev;
       const last = prev.points[prev.points.length - 1];
       const now = performance.now();
       const timeSince = now - (lastDrawTimeRef.current || 0);
-      const movedEnough = !last || last.distanceTo(point) > 0.001;
+      const movedEnough = !last || last.position.distanceTo(point) > 0.001;
       const timeDue = timeSince > 40; // add point at least every 40ms while in contact (for angle-only changes)
       if (movedEnough || timeDue) {
         lastDrawTimeRef.current = now;
-        return { ...prev, points: [...prev.points, point.clone()] };
+        const velocity = last ? last.position.distanceTo(point) / Math.max(0.001, (timestamp - last.timestamp) / 1000) : 0;
+        const points = [...prev.points, createSample(velocity).sample];
+        return { ...prev, points, ...summarizeStrokePoints(points) };
       }
       return prev;
     });
   };
 
-  // Live-update active segment style when pressure changes
-  useEffect(() => {
-    if (drawingActiveRef.current && activeSegment) {
-      const eff = Math.min(1, pressure + surfaceContactForce * 0.05);
-      const style = computeStrokeStyle(activeTool, eff);
-      setActiveSegment(prev => (prev ? { ...prev, width: style.width, opacity: style.opacity, color: style.color } : prev));
-    }
-  }, [pressure, surfaceContactForce, activeTool, activeSegment]);
-
   // Physics constants
   const GRAVITY = -0.008;
-  const SURFACE_Y = -1; // Surface position
   const TOOL_LENGTH = Math.abs(leadY); // Tool length (to tip) for collision (matches LeadTip position)
   const ELASTIC_DAMPING = 0.85;
   const COLLISION_STIFFNESS = 0.3;
@@ -419,6 +1035,81 @@ const Scene = ({
     camera.lookAt(0, 0, 0);
   }, [camera]);
 
+  useImperativeHandle(handleRef, () => ({
+    resetScene: () => {
+      clearStrokes();
+      coordinateEngine.clear();
+      setActiveSegment(null);
+      drawingActiveRef.current = false;
+
+      leadGeometry.resetWear();
+      handleWearChange();
+      crayonTip.reset();
+      eraserBlock.reset();
+      // The mechanical pencil's lead extension is a tool setting and is left as it is
+
+      setIsDragging(false);
+      setToolPosition([0, 0.5, 0]);
+      setToolVelocity([0, 0, 0]);
+      setToolRotation([angle, 0, 0]);
+      setTargetAzimuth(0);
+      setMovementDirection([0, 0]);
+      lastToolPosition.current = [0, 0.5, 0];
+
+      camera.position.set(3, 2, 3);
+      camera.lookAt(0, 0, 0);
+      if (controlsRef.current) {
+        controlsRef.current.target.set(0, 0, 0);
+        controlsRef.current.update();
+      }
+    },
+    getLeadWear: () => leadGeometry.getWearState(),
+    restoreLeadWear: (state) => {
+      if (state?.length) {
+        leadGeometry.restoreWear(state);
+      } else {
+        leadGeometry.resetWear();
+      }
+      handleWearChange();
+    },
+    getToolWear: () => ({ crayonBluntness: crayonTip.bluntness, eraserWear: eraserBlock.wear, eraserDirt: eraserBlock.dirt }),
+    restoreToolWear: ({ crayonBluntness, eraserWear, eraserDirt }) => {
+      crayonTip.bluntness = crayonBluntness;
+      eraserBlock.wear = eraserWear;
+      eraserBlock.dirt = eraserDirt;
+    },
+    kneadEraser: () => eraserBlock.knead(),
+    sharpenLead: (sharpener) => {
+      leadGeometry.sharpen(SHARPENERS[sharpener].profile);
+      handleWearChange();
+    },
+    exportRaster: (options) => {
+      // Only the surface and its strokes belong in the picture
+      const hidden = [
+        toolRef.current,
+        studioPropsRef.current,
+        crumbsRef.current,
+        heatmapRef.current,
+        options.transparent ? surfaceGroupRef.current : null
+      ].filter((object): object is THREE.Group | THREE.Mesh => !!object && object.visible);
+      hidden.forEach(object => { object.visible = false; });
+      const overlay = options.transparent ? markOverlayRef.current : null;
+      if (overlay) {
+        overlay.material.map = markStack.flattenPigment(layers);
+        overlay.material.needsUpdate = true;
+        overlay.visible = true;
+      }
+
+      try {
+        const canvas = renderSurfaceToCanvas(gl, scene, options);
+        return canvasToBlob(canvas, options.format, options.quality, options.dpi);
+      } finally {
+        hidden.forEach(object => { object.visible = true; });
+        if (overlay) overlay.visible = false;
+      }
+    }
+  }));
+
   // Helper: calculate actual tip world position using full Euler rotation (XYZ)
   const calculateTipPosition = (toolPos: [number, number, number], toolRot: [number, number, number]) => {
     const euler = new THREE.Euler(toolRot[0], toolRot[1], toolRot[2], 'XYZ');
@@ -464,10 +1155,11 @@ const Scene = ({
       }
     }
 
-    // Elastic azimuth - tool follows movement direction smoothly
-    if (isDragging && Math.abs(targetAzimuth) > 0.01) {
+    // Elastic azimuth - tool follows movement direction smoothly, or a tilting pen's lean
+    const azimuthTarget = stylusAzimuthRef.current ?? targetAzimuth;
+    if (isDragging && Math.abs(azimuthTarget) > 0.01) {
       const currentAzimuth = newRotation[1];
-      let deltaAzimuth = targetAzimuth - currentAzimuth;
+      let deltaAzimuth = azimuthTarget - currentAzimuth;
       
       // Handle angle wrapping
       if (deltaAzimuth > Math.PI) deltaAzimuth -= 2 * Math.PI;
@@ -545,10 +1237,37 @@ const Scene = ({
     setSurfaceContactForce(prev => prev * 0.9);
   });
 
+  // A pen touching the tablet sets pressure, tilt and roll as it moves; mice and hovering
+  // pens leave them to the wheel and keys. Tilt is read against the current view.
+  const handleStylus = (event: PointerEvent) => {
+    camera.getWorldDirection(viewDirection);
+    const reading = readStylus(event, Math.atan2(-viewDirection.x, -viewDirection.z));
+    if (!reading || reading.pressure <= 0) return;
+    stylusDownRef.current = true;
+    stylusAzimuthRef.current = reading.tilt?.azimuth ?? null;
+    onStylusInput?.(reading);
+  };
+
+  // Lifting the pen hands pressure back to the wheel and keys
+  const liftStylus = useCallback(() => {
+    stylusAzimuthRef.current = null;
+    if (!stylusDownRef.current) return;
+    stylusDownRef.current = false;
+    onStylusLift?.();
+  }, [onStylusLift]);
+
+  // A pen that leaves the canvas won't report lifting off the tablet
+  useEffect(() => {
+    const canvas = gl.domElement;
+    canvas.addEventListener('pointerleave', liftStylus);
+    return () => canvas.removeEventListener('pointerleave', liftStylus);
+  }, [gl, liftStylus]);
+
   // Handle pointer interaction with 3D tool
   const handlePointerDown = (event: any) => {
     if (mode !== 'tool') return;
     (event as any).stopPropagation?.();
+    handleStylus(event.nativeEvent);
 
     const ray: THREE.Ray = (event as any).ray;
     const target = new THREE.Vector3();
@@ -567,6 +1286,7 @@ const Scene = ({
 
   const handlePointerMove = (event: any) => {
     if (!isDragging || mode !== 'tool') return;
+    handleStylus(event.nativeEvent);
 
     const ray: THREE.Ray = (event as any).ray;
     const target = new THREE.Vector3();
@@ -607,6 +1327,7 @@ const Scene = ({
   };
 
   const handlePointerUp = () => {
+    liftStylus();
     setIsDragging(false);
     setGrabOffset([0, 0, 0]);
     finalizeActiveSegment(); // End current stroke segment
@@ -625,23 +1346,31 @@ const Scene = ({
 
     const toolComponent = (() => {
       const canDraw = isDragging && gravity > 0;
-      const onDrawPoint = (point: THREE.Vector3) => {
+      const onDrawPoint = (point: THREE.Vector3, contact?: StrokeContact, bristles?: number[]) => {
         // handled in Scene via segments state (set in callbacks below)
-        handleDrawPoint(point);
+        handleDrawPoint(point, contact, bristles);
       };
       switch (activeTool) {
         case 'pencil': {
           const rot = toolRotation;
-          return <Pencil3D {...baseProps} rotation={rot} roll={0} canDraw={canDraw} onDrawPoint={onDrawPoint} leadY={leadY} />;
+          return <Pencil3D {...baseProps} rotation={rot} roll={0} canDraw={canDraw} onDrawPoint={onDrawPoint} leadY={leadY} leadGeometry={leadGeometry} onWearChange={handleWearChange} bodyLength={pencilLength} leadHardness={toolSettings.pencil.leadHardness} />;
         }
         case 'brush':
-          return <Brush3D {...baseProps} />;
+          return <Brush3D {...baseProps} paintColor={paintColor} canDraw={canDraw} onDrawPoint={onDrawPoint} leadY={leadY} bristleSettings={bristleSettings} />;
         case 'eraser': {
           const rot: [number, number, number] = [toolRotation[0] + Math.PI, toolRotation[1], toolRotation[2]];
-          return <Pencil3D {...baseProps} rotation={rot} roll={0} canDraw={canDraw} onDrawPoint={onDrawPoint} leadY={leadY} />;
+          return <Pencil3D {...baseProps} rotation={rot} roll={0} canDraw={canDraw} onDrawPoint={onDrawPoint} leadY={leadY} leadGeometry={leadGeometry} onWearChange={handleWearChange} bodyLength={pencilLength} />;
         }
+        case 'pen':
+          return <Pen3D {...baseProps} canDraw={canDraw} onDrawPoint={onDrawPoint} leadY={leadY} tipMaterial={toolSettings.pen.tipMaterial} nibAzimuth={getNibEdgeAzimuth(roll)} />;
+        case 'crayon':
+          return <Crayon3D {...baseProps} canDraw={canDraw} onDrawPoint={onDrawPoint} leadY={leadY} crayonTip={crayonTip} />;
+        case 'mechanicalPencil':
+          return <MechanicalPencil3D {...baseProps} canDraw={canDraw} onDrawPoint={onDrawPoint} leadY={leadY} lead={toolSettings.mechanicalPencil} onLeadSnap={handleLeadSnap} />;
+        case 'blendingStump':
+          return <BlendingStump3D {...baseProps} canDraw={canDraw} onDrawPoint={onDrawPoint} leadY={leadY} stump={toolSettings.blendingStump} />;
         default:
-          return <Pencil3D {...baseProps} canDraw={canDraw} onDrawPoint={onDrawPoint} />;
+          return <Pencil3D {...baseProps} canDraw={canDraw} onDrawPoint={onDrawPoint} leadGeometry={leadGeometry} onWearChange={handleWearChange} bodyLength={pencilLength} />;
       }
     })();
 
@@ -665,42 +1394,11 @@ const Scene = ({
   };
 
   // Render drawing strokes
-  const renderStrokes = () => {
-    if (segments.length === 0 && !activeSegment) return null;
-
-    return (
-      <>
-        {segments.map((seg, idx) => (
-          seg.points.length > 1 && (
-            <Line
-              key={`seg-${idx}`}
-              points={seg.points}
-              color={seg.color}
-              lineWidth={seg.width}
-              dashed={false}
-              transparent
-              opacity={seg.opacity}
-            />
-          )
-        ))}
-        {activeSegment && activeSegment.points.length > 1 && (
-          <Line
-            points={activeSegment.points}
-            color={activeSegment.color}
-            lineWidth={activeSegment.width}
-            dashed={false}
-            transparent
-            opacity={activeSegment.opacity}
-          />
-        )}
-      </>
-    );
-  };
-
   return (
     <>
       <PerspectiveCamera makeDefault position={[3, 2, 3]} />
       <OrbitControls 
+        ref={controlsRef}
         enablePan={mode === 'camera'}
         enableZoom={mode === 'camera'}
         enableRotate={mode === 'camera'}
@@ -721,7 +1419,12 @@ const Scene = ({
       />
       <pointLight position={[-5, 5, -5]} intensity={0.5} />
       
-      <DrawingSurface surfaceType={surfaceType} />
+      <group ref={surfaceGroupRef}>
+        <DrawingSurface topology={topology} colorMap={markStack.texture} finishMap={markStack.finishTexture} />
+      </group>
+      <group ref={crumbsRef}>
+        <EraserCrumbs segments={eraserSegments} />
+      </group>
       {/* Invisible interaction plane for robust XZ dragging */}
       <mesh
         position={[0, SURFACE_Y + 0.0005, 0]}
@@ -734,13 +1437,35 @@ const Scene = ({
         <meshBasicMaterial transparent opacity={0} depthWrite={false} />
       </mesh>
       {renderTool()}
-      {renderStrokes()}
+      {/* Wetness heat-map for debugging the drying model */}
+      <mesh ref={heatmapRef} position={[0, SURFACE_Y + 0.003, 0]} rotation={[-Math.PI / 2, 0, 0]} visible={showWetness}>
+        <planeGeometry args={[20, 15]} />
+        <shaderMaterial
+          {...WetnessHeatmapShader}
+          uniforms={heatmapUniforms}
+          transparent
+          depthWrite={false}
+        />
+      </mesh>
+      {/* Pigment without the surface, only shown for transparent exports */}
+      <mesh ref={markOverlayRef} position={[0, SURFACE_Y + 0.002, 0]} rotation={[-Math.PI / 2, 0, 0]} visible={false}>
+        <planeGeometry args={[20, 15]} />
+        <meshBasicMaterial
+          transparent
+          depthWrite={false}
+          blending={THREE.CustomBlending}
+          blendSrc={THREE.OneFactor}
+          blendDst={THREE.OneMinusSrcAlphaFactor}
+        />
+      </mesh>
       
       {/* Studio environment elements */}
-      <mesh position={[8, 3, 0]} rotation={[0, -Math.PI / 4, 0]}>
-        <boxGeometry args={[0.1, 6, 0.1]} />
-        <meshPhysicalMaterial color="#8B4513" roughness={0.8} />
-      </mesh>
+      <group ref={studioPropsRef}>
+        <mesh position={[8, 3, 0]} rotation={[0, -Math.PI / 4, 0]}>
+          <boxGeometry args={[0.1, 6, 0.1]} />
+          <meshPhysicalMaterial color="#8B4513" roughness={0.8} />
+        </mesh>
+      </group>
     </>
   );
 };
@@ -754,11 +1479,30 @@ interface ArtCanvas3DProps {
   roll: number;
   mode: InteractionMode;
   leadY: number;
+  segments: StrokeSegment[];
+  layers: ArtworkLayer[];
+  activeLayerId: string;
+  paintColor?: string; // Paint loaded on the brush from the palette
+  paintLoad: number; // 0-1 brush reservoir
+  strokePaint?: StrokePaint; // Medium new brush strokes are laid in
+  studioClock: StudioClock; // Simulated time wet paint dries on
+  replayStudioTime: number | null; // Studio time at the replay position while a replay runs
+  showWetness: boolean; // Debug heat-map of wet paint
+  toolSettings: ToolPhysics; // Settings of every tool, as set in the tool panel
+  onToolSettingsChange: ToolPhysicsChange; // Tools change their own state too: lead wears and snaps
+  onBrushTravel?: (pressure: number, velocity: number, distance: number) => void;
+  onSegmentComplete: (segment: StrokeSegment) => void;
+  leadWear: LeadWearState | null;
+  onLeadWearChange?: (state: LeadWearState) => void;
+  pencilLength: number; // Wooden body left after sharpening
+  onStylusInput?: (reading: StylusReading) => void; // Pressure, tilt and twist of a pen on a tablet
+  onStylusLift?: () => void; // The pen left the tablet or the canvas
 }
 
-export const ArtCanvas3D = ({ activeTool, surfaceType, pressure, gravity, angle, roll, mode, leadY }: ArtCanvas3DProps) => {
+export const ArtCanvas3D = forwardRef<ArtCanvas3DHandle, ArtCanvas3DProps>(({ activeTool, surfaceType, pressure, gravity, angle, roll, mode, leadY, segments, layers, activeLayerId, paintColor, paintLoad, strokePaint, studioClock, replayStudioTime, showWetness, toolSettings, onToolSettingsChange, onBrushTravel, onSegmentComplete, leadWear, onLeadWearChange, pencilLength, onStylusInput, onStylusLift }, ref) => {
   const [isDrawing, setIsDrawing] = useState(false);
   const { toast } = useToast();
+  const activeLayer = layers.find(layer => layer.id === activeLayerId);
 
   useEffect(() => {
     toast({
@@ -792,6 +1536,25 @@ export const ArtCanvas3D = ({ activeTool, surfaceType, pressure, gravity, angle,
             surfaceType={surfaceType}
             mode={mode}
             leadY={leadY}
+            segments={segments}
+            layers={layers}
+            activeLayerId={activeLayerId}
+            paintColor={paintColor}
+            paintLoad={paintLoad}
+            strokePaint={strokePaint}
+            studioClock={studioClock}
+            replayStudioTime={replayStudioTime}
+            showWetness={showWetness}
+            toolSettings={toolSettings}
+            onToolSettingsChange={onToolSettingsChange}
+            onBrushTravel={onBrushTravel}
+            onSegmentComplete={onSegmentComplete}
+            leadWear={leadWear}
+            onLeadWearChange={onLeadWearChange}
+            pencilLength={pencilLength}
+            onStylusInput={onStylusInput}
+            onStylusLift={onStylusLift}
+            handleRef={ref}
           />
         </Suspense>
       </Canvas>
@@ -804,8 +1567,26 @@ export const ArtCanvas3D = ({ activeTool, surfaceType, pressure, gravity, angle,
         <div className="text-xs text-muted-foreground mt-1">
           Pressure: {Math.round(pressure * 100)}% | Angle: {Math.round(angle * 57.3)}°
         </div>
+        {activeLayer && (
+          <div className="text-xs text-muted-foreground mt-1">
+            Layer: {activeLayer.name}
+            {activeLayer.locked ? ' (locked)' : !activeLayer.visible ? ' (hidden)' : ''}
+          </div>
+        )}
+        {activeTool === 'brush' && (
+          <div className="mt-2 space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-full border" style={{ backgroundColor: paintColor ?? 'transparent' }} />
+                {strokePaint ? PAINT_MEDIA[strokePaint.medium].name : 'Paint'}
+              </span>
+              <span>{paintLoad <= EMPTY_BRUSH_LOAD ? 'Dry - dip in palette' : `${Math.round(paintLoad * 100)}%`}</span>
+            </div>
+            <Progress value={paintLoad * 100} className="h-1.5" />
+          </div>
+        )}
       </div>
       
     </div>
   );
-};
\ No newline at end of file
+});
@@ -0,0 +1,341 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import * as THREE from 'three';
+import { StrokeSegment, StrokePoint, createStrokePoint } from './DrawingStrokeSystem';
+import { LeadWearState } from './LeadTipPhysics';
+import { ArtworkLayer, createDefaultLayers } from './ArtworkLayers';
+import { DEFAULT_PENCIL_LENGTH } from './PencilSharpener';
+import { HB_HARDNESS, LeadHardnessSettings } from './LeadGrade';
+
+export type SurfaceType = 'whiteboard' | 'canvas' | 'paper';
+
+export interface ToolSettings {
+  pressure: number;
+  angle: number;
+  roll: number;
+  leadY: number;
+  pencilLength: number; // Shortened by each sharpening
+  leadHardness: LeadHardnessSettings; // Grade each pencil is loaded with
+}
+
+// Everything that makes up the artwork itself, independent of storage metadata
+export interface ArtworkContent {
+  surfaceType: SurfaceType;
+  toolSettings: ToolSettings;
+  layers: ArtworkLayer[]; // Bottom to top
+  strokes: StrokeSegment[];
+  leadWear: LeadWearState | null;
+}
+
+export interface ArtworkDocument extends ArtworkContent {
+  id: string;
+  name: string;
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type ArtworkMeta = Omit<ArtworkDocument, keyof ArtworkContent>;
+
+const toMeta = ({ id, name, version, createdAt, updatedAt }: ArtworkDocument): ArtworkMeta => ({
+  id, name, version, createdAt, updatedAt
+});
+
+export interface RecentDocument {
+  id: string;
+  name: string;
+  updatedAt: number;
+  strokeCount: number;
+}
+
+// Stored form: THREE.Vector3 instances are flattened to plain tuples
+interface StoredStrokePoint extends Omit<StrokePoint, 'position'> {
+  position: [number, number, number];
+}
+
+// Strokes saved before version 3 have no layer
+type StoredStrokeBase = Omit<StrokeSegment, 'points' | 'layerId'> & { layerId?: string };
+
+interface StoredStroke extends StoredStrokeBase {
+  points: StoredStrokePoint[];
+}
+
+// Version 1 stored bare positions plus an optional parallel timestamp list
+interface StoredStrokeV1 extends StoredStrokeBase {
+  points: [number, number, number][];
+  timestamps?: number[];
+}
+
+interface StoredArtworkDocument extends Omit<ArtworkDocument, 'strokes' | 'layers'> {
+  layers?: ArtworkLayer[];
+  strokes: (StoredStroke | StoredStrokeV1)[];
+}
+
+export const ARTWORK_DOCUMENT_VERSION = 3;
+
+const DB_NAME = 'plein-air-studio';
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+const SUMMARIES_STORE = 'summaries';
+const LAST_DOCUMENT_KEY = 'plein-air:last-document';
+const RECENT_LIMIT = 10;
+const AUTOSAVE_DELAY = 1500; // ms of inactivity before autosaving
+
+export const DEFAULT_TOOL_SETTINGS: ToolSettings = {
+  pressure: 0.5,
+  angle: 0,
+  roll: 0,
+  leadY: -0.98,
+  pencilLength: DEFAULT_PENCIL_LENGTH,
+  leadHardness: { pencil: HB_HARDNESS, mechanicalPencil: HB_HARDNESS }
+};
+
+export const createArtworkDocument = (content?: Partial<ArtworkContent>): ArtworkDocument => {
+  const now = Date.now();
+  return {
+    id: `artwork_${now}_${Math.random().toString(36).slice(2, 10)}`,
+    name: `Artwork ${new Date(now).toLocaleString()}`,
+    version: ARTWORK_DOCUMENT_VERSION,
+    createdAt: now,
+    updatedAt: now,
+    surfaceType: 'canvas',
+    toolSettings: { ...DEFAULT_TOOL_SETTINGS },
+    layers: createDefaultLayers(),
+    strokes: [],
+    leadWear: null,
+    ...content
+  };
+};
+
+const serializeDocument = (doc: ArtworkDocument): StoredArtworkDocument => ({
+  ...doc,
+  version: ARTWORK_DOCUMENT_VERSION,
+  strokes: doc.strokes.map(stroke => ({
+    ...stroke,
+    points: stroke.points.map(({ position, ...sample }) => ({
+      ...sample,
+      position: [position.x, position.y, position.z] as [number, number, number]
+    }))
+  }))
+});
+
+// Older strokes had no per-point samples; spread the stroke's own style along them
+const migrateStrokeV1 = ({ points, timestamps, ...stroke }: StoredStrokeV1, layerId: string): StrokeSegment => ({
+  ...stroke,
+  layerId,
+  points: points.map(([x, y, z], i) => createStrokePoint(new THREE.Vector3(x, y, z), {
+    timestamp: timestamps?.[i] ?? 0,
+    width: stroke.width,
+    opacity: stroke.opacity
+  }))
+});
+
+// Samples are filled from the defaults so fields added since the document was saved get a value
+const deserializeStroke = (stroke: StoredStroke, layerId: string): StrokeSegment => ({
+  ...stroke,
+  layerId,
+  points: stroke.points.map(({ position: [x, y, z], ...sample }) => createStrokePoint(new THREE.Vector3(x, y, z), sample))
+});
+
+const deserializeDocument = (stored: StoredArtworkDocument): ArtworkDocument => {
+  // Documents from before layers put every stroke on a single bottom layer
+  const layers = stored.layers?.length ? stored.layers : createDefaultLayers();
+  const layerIdOf = (stroke: StoredStrokeBase) => stroke.layerId ?? layers[0].id;
+
+  return {
+    ...stored,
+    version: ARTWORK_DOCUMENT_VERSION,
+    toolSettings: { ...DEFAULT_TOOL_SETTINGS, ...stored.toolSettings },
+    layers,
+    strokes: stored.strokes.map(stroke =>
+      (stored.version ?? 1) < 2
+        ? migrateStrokeV1(stroke as StoredStrokeV1, layerIdOf(stroke))
+        : deserializeStroke(stroke as StoredStroke, layerIdOf(stroke))
+    )
+  };
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Thin IndexedDB wrapper. Full documents and their lightweight summaries live in
+// separate stores so the recent list never has to load stroke data.
+export class ArtworkDocumentStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+            db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+            db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async save(doc: ArtworkDocument): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([DOCUMENTS_STORE, SUMMARIES_STORE], 'readwrite');
+    const summary: RecentDocument = {
+      id: doc.id,
+      name: doc.name,
+      updatedAt: doc.updatedAt,
+      strokeCount: doc.strokes.length
+    };
+    transaction.objectStore(DOCUMENTS_STORE).put(serializeDocument(doc));
+    transaction.objectStore(SUMMARIES_STORE).put(summary);
+    await transactionDone(transaction);
+  }
+
+  async load(id: string): Promise<ArtworkDocument | null> {
+    const db = await this.open();
+    const stored = await requestToPromise<StoredArtworkDocument | undefined>(
+      db.transaction(DOCUMENTS_STORE).objectStore(DOCUMENTS_STORE).get(id)
+    );
+    return stored ? deserializeDocument(stored) : null;
+  }
+
+  async listRecent(limit = RECENT_LIMIT): Promise<RecentDocument[]> {
+    const db = await this.open();
+    const summaries = await requestToPromise<RecentDocument[]>(
+      db.transaction(SUMMARIES_STORE).objectStore(SUMMARIES_STORE).getAll()
+    );
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt).slice(0, limit);
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([DOCUMENTS_STORE, SUMMARIES_STORE], 'readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).delete(id);
+    transaction.objectStore(SUMMARIES_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+}
+
+interface UseArtworkDocumentOptions {
+  content: ArtworkContent; // Memoized current content; identity changes schedule an autosave
+  captureLeadWear?: () => LeadWearState | null; // Latest wear, read lazily at save time
+  onOpen: (doc: ArtworkDocument) => void;
+}
+
+// Custom hook that persists the studio's artwork and reopens the last document on launch
+export const useArtworkDocument = ({ content, captureLeadWear, onOpen }: UseArtworkDocumentOptions) => {
+  const store = useMemo(() => new ArtworkDocumentStore(), []);
+  const [meta, setMeta] = useState<ArtworkMeta>(() => toMeta(createArtworkDocument()));
+  const [recentDocuments, setRecentDocuments] = useState<RecentDocument[]>([]);
+  const [isReady, setIsReady] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+
+  const contentRef = useRef(content);
+  contentRef.current = content;
+  const onOpenRef = useRef(onOpen);
+  onOpenRef.current = onOpen;
+  const hasSavedRef = useRef(false);
+
+  const refreshRecent = useCallback(async () => {
+    setRecentDocuments(await store.listRecent());
+  }, [store]);
+
+  const saveNow = useCallback(async () => {
+    const current = contentRef.current;
+    const doc: ArtworkDocument = {
+      ...meta,
+      ...current,
+      leadWear: captureLeadWear?.() ?? current.leadWear,
+      updatedAt: Date.now()
+    };
+    await store.save(doc);
+    hasSavedRef.current = true;
+    localStorage.setItem(LAST_DOCUMENT_KEY, doc.id);
+    setLastSavedAt(doc.updatedAt);
+    await refreshRecent();
+  }, [meta, store, captureLeadWear, refreshRecent]);
+
+  const openDocument = useCallback(async (id: string) => {
+    const doc = await store.load(id);
+    if (!doc) return false;
+
+    setMeta(toMeta(doc));
+    hasSavedRef.current = true;
+    setLastSavedAt(doc.updatedAt);
+    localStorage.setItem(LAST_DOCUMENT_KEY, doc.id);
+    onOpenRef.current(doc);
+    return true;
+  }, [store]);
+
+  const newDocument = useCallback(() => {
+    const doc = createArtworkDocument({ surfaceType: contentRef.current.surfaceType });
+    setMeta(toMeta(doc));
+    hasSavedRef.current = false;
+    setLastSavedAt(null);
+    onOpenRef.current(doc);
+    return doc;
+  }, []);
+
+  // Reopen whatever was open when the page was last closed
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      try {
+        const lastId = localStorage.getItem(LAST_DOCUMENT_KEY);
+        if (lastId && !cancelled) {
+          await openDocument(lastId);
+        }
+        if (!cancelled) await refreshRecent();
+      } catch (error) {
+        console.warn('Artwork storage unavailable:', error);
+      } finally {
+        if (!cancelled) setIsReady(true);
+      }
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [openDocument, refreshRecent]);
+
+  // Debounced autosave; held back until the last session has been restored so
+  // an empty studio never overwrites it, and skipped for untouched new documents
+  useEffect(() => {
+    if (!isReady) return;
+    if (!hasSavedRef.current && content.strokes.length === 0) return;
+
+    const timeout = setTimeout(() => {
+      saveNow().catch(error => console.warn('Autosave failed:', error));
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [content, isReady, saveNow]);
+
+  return {
+    documentId: meta.id,
+    documentName: meta.name,
+    recentDocuments,
+    lastSavedAt,
+    isReady,
+    saveNow,
+    openDocument,
+    newDocument
+  };
+};
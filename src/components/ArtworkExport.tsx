@@ -0,0 +1,445 @@
+import * as THREE from 'three';
+import { StrokeSegment, STROKE_WIDTH_TO_WORLD } from './DrawingStrokeSystem';
+import { ArtworkLayer, groupSegmentsByLayer } from './ArtworkLayers';
+import { ERASER_MATERIALS } from './EraserMaterial';
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp';
+export type ExportFormat = RasterFormat | 'svg';
+export type SvgUnit = 'mm' | 'in';
+
+export interface RasterExportOptions {
+  format: RasterFormat;
+  width: number; // Output pixels; height follows the surface aspect ratio
+  transparent: boolean;
+  quality?: number; // 0-1, lossy formats only
+  dpi?: number; // Written into the file's resolution metadata, for formats that have it
+}
+
+export interface SvgExportOptions {
+  unit: SvgUnit;
+  width: number; // Physical width in `unit`; height follows the surface aspect ratio
+}
+
+export interface PrintSize {
+  id: string;
+  name: string;
+  widthMm: number; // Long edge; the drawing surface is landscape
+}
+
+// Drawing surface plane in world units (matches DrawingSurface's planeGeometry)
+export const SURFACE_WIDTH = 20;
+export const SURFACE_HEIGHT = 15;
+export const SURFACE_Y = -1;
+
+export const MAX_EXPORT_PIXELS = 10000; // Longest edge; keeps the 2D canvas within browser limits
+const MAX_TILE_SIZE = 4096;
+const MM_PER_INCH = 25.4;
+const METERS_PER_INCH = 0.0254;
+
+export const PRINT_SIZES: PrintSize[] = [
+  { id: 'a5', name: 'A5 (210 mm)', widthMm: 210 },
+  { id: 'a4', name: 'A4 (297 mm)', widthMm: 297 },
+  { id: 'a3', name: 'A3 (420 mm)', widthMm: 420 },
+  { id: 'a2', name: 'A2 (594 mm)', widthMm: 594 },
+  { id: 'letter', name: 'Letter (11 in)', widthMm: 11 * MM_PER_INCH },
+  { id: 'tabloid', name: 'Tabloid (17 in)', widthMm: 17 * MM_PER_INCH },
+];
+
+export const MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+export const getExportPixelSize = (widthMm: number, dpi: number) => {
+  const width = Math.round((widthMm / MM_PER_INCH) * dpi);
+  return {
+    width,
+    height: Math.round(width * (SURFACE_HEIGHT / SURFACE_WIDTH))
+  };
+};
+
+// Tone mapping and sRGB encoding are only applied by three.js when drawing to the
+// screen, so offscreen renders go through this pass to match what the user sees.
+const EncodeShader = {
+  uniforms: {
+    tDiffuse: { value: null as THREE.Texture | null },
+    toneMappingExposure: { value: 1 },
+    unpremultiply: { value: false }
+  },
+  vertexShader: /* glsl */`
+    precision highp float;
+    uniform mat4 modelViewMatrix;
+    uniform mat4 projectionMatrix;
+    attribute vec3 position;
+    attribute vec2 uv;
+    varying vec2 vUv;
+
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }`,
+  fragmentShader: /* glsl */`
+    precision highp float;
+    uniform sampler2D tDiffuse;
+    uniform bool unpremultiply;
+
+    #include <tonemapping_pars_fragment>
+    #include <colorspace_pars_fragment>
+
+    varying vec2 vUv;
+
+    void main() {
+      vec4 texel = texture2D(tDiffuse, vUv);
+      // Blending over a transparent clear leaves premultiplied color behind
+      if (unpremultiply && texel.a > 0.0) texel.rgb /= texel.a;
+
+      #ifdef ACES_FILMIC_TONE_MAPPING
+        texel.rgb = ACESFilmicToneMapping(texel.rgb);
+      #endif
+
+      gl_FragColor = sRGBTransferOETF(texel);
+    }`
+};
+
+// Render the drawing surface top-down with an orthographic camera into an
+// offscreen canvas. Large outputs are rendered in tiles via setViewOffset so
+// print resolutions are not limited by the GPU's maximum render target size.
+export const renderSurfaceToCanvas = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  options: RasterExportOptions,
+  beforeTileRender?: (tileWidth: number, tileHeight: number) => void
+): HTMLCanvasElement => {
+  const width = Math.min(MAX_EXPORT_PIXELS, Math.max(1, Math.round(options.width)));
+  const height = Math.max(1, Math.round(width * (SURFACE_HEIGHT / SURFACE_WIDTH)));
+  const tileSize = Math.min(MAX_TILE_SIZE, renderer.capabilities.maxTextureSize);
+
+  const camera = new THREE.OrthographicCamera(
+    -SURFACE_WIDTH / 2, SURFACE_WIDTH / 2,
+    SURFACE_HEIGHT / 2, -SURFACE_HEIGHT / 2,
+    0.1, 50
+  );
+  camera.position.set(0, SURFACE_Y + 10, 0);
+  camera.up.set(0, 0, -1); // Far edge of the surface is the top of the image
+  camera.lookAt(0, SURFACE_Y, 0);
+  camera.updateProjectionMatrix();
+
+  const sceneTarget = new THREE.WebGLRenderTarget(tileSize, tileSize, {
+    type: THREE.HalfFloatType,
+    samples: 4
+  });
+  const outputTarget = new THREE.WebGLRenderTarget(tileSize, tileSize);
+
+  const encodeMaterial = new THREE.RawShaderMaterial({
+    ...EncodeShader,
+    uniforms: THREE.UniformsUtils.clone(EncodeShader.uniforms),
+    defines: renderer.toneMapping === THREE.ACESFilmicToneMapping ? { ACES_FILMIC_TONE_MAPPING: '' } : {}
+  });
+  encodeMaterial.uniforms.tDiffuse.value = sceneTarget.texture;
+  encodeMaterial.uniforms.toneMappingExposure.value = renderer.toneMappingExposure;
+  encodeMaterial.uniforms.unpremultiply.value = options.transparent;
+  const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), encodeMaterial);
+  const quadScene = new THREE.Scene();
+  quadScene.add(quad);
+  const quadCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const context = output.getContext('2d')!;
+
+  const previousTarget = renderer.getRenderTarget();
+  const previousClearColor = renderer.getClearColor(new THREE.Color());
+  const previousClearAlpha = renderer.getClearAlpha();
+  const previousBackground = scene.background;
+
+  try {
+    if (options.transparent) {
+      scene.background = null;
+      renderer.setClearColor(0x000000, 0);
+    } else {
+      renderer.setClearColor(0xffffff, 1);
+    }
+
+    for (let y = 0; y < height; y += tileSize) {
+      for (let x = 0; x < width; x += tileSize) {
+        const tileWidth = Math.min(tileSize, width - x);
+        const tileHeight = Math.min(tileSize, height - y);
+
+        sceneTarget.setSize(tileWidth, tileHeight);
+        outputTarget.setSize(tileWidth, tileHeight);
+        camera.setViewOffset(width, height, x, y, tileWidth, tileHeight);
+        beforeTileRender?.(tileWidth, tileHeight);
+
+        renderer.setRenderTarget(sceneTarget);
+        renderer.clear();
+        renderer.render(scene, camera);
+
+        renderer.setRenderTarget(outputTarget);
+        renderer.render(quadScene, quadCamera);
+
+        const pixels = new Uint8Array(tileWidth * tileHeight * 4);
+        renderer.readRenderTargetPixels(outputTarget, 0, 0, tileWidth, tileHeight, pixels);
+
+        // WebGL rows start at the bottom; canvas rows start at the top
+        const image = context.createImageData(tileWidth, tileHeight);
+        const rowBytes = tileWidth * 4;
+        for (let row = 0; row < tileHeight; row++) {
+          const src = (tileHeight - 1 - row) * rowBytes;
+          image.data.set(pixels.subarray(src, src + rowBytes), row * rowBytes);
+        }
+        context.putImageData(image, x, y);
+      }
+    }
+  } finally {
+    renderer.setRenderTarget(previousTarget);
+    renderer.setClearColor(previousClearColor, previousClearAlpha);
+    scene.background = previousBackground;
+    sceneTarget.dispose();
+    outputTarget.dispose();
+    encodeMaterial.dispose();
+    quad.geometry.dispose();
+  }
+
+  return output;
+};
+
+const SVG_PRECISION = 3;
+const MIN_OUTLINE_SPACING = 0.01; // Output units; closer samples add nothing but noise to an outline
+
+const formatNumber = (value: number) => String(Number(value.toFixed(SVG_PRECISION)));
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+// Outline a stroke as a closed path, each side offset from the path by half the
+// sample's width so pressure taper survives, with round ends where it starts and stops.
+// The top edge of the image is the far (-z) edge of the surface, as in raster exports.
+const toSvgOutlineData = (segment: StrokeSegment, scale: number) => {
+  const samples = segment.points
+    .map(({ position, width }) => ({
+      x: (position.x + SURFACE_WIDTH / 2) * scale,
+      y: (position.z + SURFACE_HEIGHT / 2) * scale,
+      radius: (width * STROKE_WIDTH_TO_WORLD * scale) / 2
+    }))
+    .filter((sample, i, all) => i === 0 || Math.hypot(sample.x - all[i - 1].x, sample.y - all[i - 1].y) > MIN_OUTLINE_SPACING);
+  if (samples.length === 0) return '';
+
+  const point = (x: number, y: number) => `${formatNumber(x)} ${formatNumber(y)}`;
+  const arc = (radius: number, to: string) => `A${formatNumber(radius)} ${formatNumber(radius)} 0 0 0 ${to}`;
+  const first = samples[0];
+  if (samples.length === 1) {
+    // A dab: two half circles
+    const left = point(first.x - first.radius, first.y);
+    return `M${left}${arc(first.radius, point(first.x + first.radius, first.y))}${arc(first.radius, left)}Z`;
+  }
+
+  const left: string[] = [];
+  const right: string[] = [];
+  samples.forEach((sample, i) => {
+    const previous = samples[Math.max(0, i - 1)];
+    const next = samples[Math.min(samples.length - 1, i + 1)];
+    const length = Math.hypot(next.x - previous.x, next.y - previous.y) || 1;
+    const nx = (-(next.y - previous.y) / length) * sample.radius;
+    const ny = ((next.x - previous.x) / length) * sample.radius;
+    left.push(point(sample.x + nx, sample.y + ny));
+    right.push(point(sample.x - nx, sample.y - ny));
+  });
+
+  const last = samples[samples.length - 1];
+  return `M${left.join('L')}${arc(last.radius, right[right.length - 1])}` +
+    `L${right.slice(0, -1).reverse().join('L')}${arc(first.radius, left[0])}Z`;
+};
+
+// Markup drawn so far on a layer, kept apart by pigment since erasers lift ink less than graphite
+interface SvgMark {
+  ink: boolean;
+  markup: string;
+}
+
+// Wrap runs of marks of the same pigment in a group under that pigment's mask
+const maskMarks = (marks: SvgMark[], maskFor: (ink: boolean) => string | null): SvgMark[] =>
+  marks.reduce<SvgMark[]>((runs, mark) => {
+    const last = runs[runs.length - 1];
+    if (last && last.ink === mark.ink) last.markup += mark.markup;
+    else runs.push({ ...mark });
+    return runs;
+  }, []).map(run => {
+    const maskId = maskFor(run.ink);
+    if (!maskId) return run;
+    return { ink: run.ink, markup: `    <g mask="url(#${maskId})">\n${run.markup.replace(/^(?=.)/gm, '  ')}    </g>\n` };
+  });
+
+// Build a standalone SVG in physical units. Each artwork layer becomes a group that
+// vector tools recognise as a layer, carrying its visibility, opacity and blend mode.
+// Each mark becomes a filled outline <path>; an eraser stroke becomes a mask over everything
+// drawn before it on the same layer, so later marks stay visible and the file
+// remains editable. The mask takes away as much as the eraser's material lifts in
+// raster exports, graphite and ink each by their own share.
+export const buildSvgDocument = (
+  segments: StrokeSegment[],
+  layers: ArtworkLayer[],
+  options: SvgExportOptions
+): string => {
+  const width = options.width;
+  const height = width * (SURFACE_HEIGHT / SURFACE_WIDTH);
+  const scale = width / SURFACE_WIDTH;
+  const segmentsByLayer = groupSegmentsByLayer(layers, segments);
+
+  const masks: string[] = [];
+  const groups: string[] = [];
+
+  layers.forEach((layer, layerIndex) => {
+    let marks: SvgMark[] = [];
+
+    segmentsByLayer.get(layer.id)?.forEach(segment => {
+      if (segment.tool === 'blendingStump') return; // Blending has no vector form; raster exports keep it
+      const pathData = toSvgOutlineData(segment, scale);
+      if (!pathData) return;
+
+      if (segment.tool === 'eraser') {
+        // Strokes without an eraser record come from older documents and remove everything alike
+        const material = segment.eraser ? ERASER_MATERIALS[segment.eraser.material] : null;
+        const graphiteLift = material ? material.lift : 1;
+        const inkLift = material ? material.lift * material.inkLift : 1;
+        const maskIds = new Map<number, string>();
+
+        marks = maskMarks(marks, ink => {
+          const lift = ink ? inkLift : graphiteLift;
+          if (lift <= 0) return null;
+          let maskId = maskIds.get(lift);
+          if (!maskId) {
+            maskId = `erase-${masks.length + 1}`;
+            masks.push(
+              `    <mask id="${maskId}" maskUnits="userSpaceOnUse" x="0" y="0" width="${formatNumber(width)}" height="${formatNumber(height)}">\n` +
+              `      <rect width="${formatNumber(width)}" height="${formatNumber(height)}" fill="white"/>\n` +
+              `      <path d="${pathData}" fill="black" fill-opacity="${formatNumber(lift)}"/>\n` +
+              `    </mask>`
+            );
+            maskIds.set(lift, maskId);
+          }
+          return maskId;
+        });
+        return;
+      }
+
+      marks.push({
+        ink: segment.tool === 'pen',
+        markup:
+          `    <path d="${pathData}" fill="${escapeAttribute(segment.color)}" ` +
+          `fill-opacity="${formatNumber(segment.opacity)}"/>\n`
+      });
+    });
+
+    const body = marks.map(mark => mark.markup).join('');
+
+    const attributes = [
+      `id="layer-${layerIndex + 1}"`,
+      'inkscape:groupmode="layer"',
+      `inkscape:label="${escapeAttribute(layer.name)}"`,
+      layer.opacity < 1 ? `opacity="${formatNumber(layer.opacity)}"` : '',
+      layer.blendMode !== 'normal' ? `style="mix-blend-mode:${layer.blendMode}"` : '',
+      layer.visible ? '' : 'display="none"'
+    ].filter(attribute => attribute !== '');
+    groups.push(body ? `  <g ${attributes.join(' ')}>\n${body}  </g>` : `  <g ${attributes.join(' ')}/>`);
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${formatNumber(width)}${options.unit}" height="${formatNumber(height)}${options.unit}" viewBox="0 0 ${formatNumber(width)} ${formatNumber(height)}">`,
+    masks.length > 0 ? `  <defs>\n${masks.join('\n')}\n  </defs>` : '',
+    ...groups,
+    '</svg>'
+  ].filter(line => line !== '').join('\n') + '\n';
+};
+
+export const svgToBlob = (svg: string) => new Blob([svg], { type: 'image/svg+xml' });
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  bytes.forEach(byte => { crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8); });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const concatBytes = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  parts.reduce((offset, part) => { out.set(part, offset); return offset + part.length; }, 0);
+  return out;
+};
+
+// PNG keeps resolution in a pHYs chunk, in pixels per metre. It goes right after the
+// IHDR chunk, replacing any the encoder wrote.
+const withPngResolution = (bytes: Uint8Array, dpi: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)) !== 'pHYs') chunks.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+
+  const phys = new Uint8Array(21);
+  const physView = new DataView(phys.buffer);
+  const perMetre = Math.round(dpi / METERS_PER_INCH);
+  physView.setUint32(0, 9);
+  phys.set([0x70, 0x48, 0x59, 0x73], 4); // pHYs
+  physView.setUint32(8, perMetre);
+  physView.setUint32(12, perMetre);
+  phys[16] = 1; // Unit: metre
+  physView.setUint32(17, crc32(phys.subarray(4, 17)));
+  return concatBytes(bytes.subarray(0, 8), chunks[0], phys, ...chunks.slice(1));
+};
+
+// JPEG keeps it as the JFIF header's density in dots per inch; the header is added
+// if the encoder left it out
+const withJpegResolution = (bytes: Uint8Array, dpi: number) => {
+  const value = Math.min(0xffff, Math.round(dpi));
+  const density = [value >> 8, value & 0xff];
+  const hasJfif = bytes[2] === 0xff && bytes[3] === 0xe0 && String.fromCharCode(...bytes.subarray(6, 10)) === 'JFIF';
+  if (hasJfif) {
+    const out = bytes.slice();
+    out.set([1, ...density, ...density], 13); // Units: dots per inch
+    return out;
+  }
+  const app0 = new Uint8Array([0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 1, ...density, ...density, 0, 0]);
+  return concatBytes(bytes.subarray(0, 2), app0, bytes.subarray(2));
+};
+
+// Stamp the print resolution into an encoded image so print and layout tools size it
+// right. WebP only carries resolution inside EXIF, so it is left as encoded.
+const withResolution = async (blob: Blob, format: RasterFormat, dpi: number): Promise<Blob> => {
+  if (format === 'webp') return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const stamped = format === 'png' ? withPngResolution(bytes, dpi) : withJpegResolution(bytes, dpi);
+  return new Blob([stamped], { type: blob.type });
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, format: RasterFormat, quality = 0.92, dpi?: number): Promise<Blob> =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error(`Could not encode ${format.toUpperCase()}`))),
+      MIME_TYPES[format],
+      quality
+    );
+  }).then(blob => (dpi ? withResolution(blob, format, dpi) : blob));
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const toExportFilename = (name: string, extension: string) =>
+  `${name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'artwork'}.${extension}`;
@@ -0,0 +1,52 @@
+import { StrokeSegment } from './DrawingStrokeSystem';
+
+export type LayerBlendMode = 'normal' | 'multiply';
+
+export interface ArtworkLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+  blendMode: LayerBlendMode;
+}
+
+export const MAX_LAYERS = 8; // Each layer holds a full-resolution pigment target on the GPU
+
+export const LAYER_BLEND_MODES: { id: LayerBlendMode; name: string }[] = [
+  { id: 'normal', name: 'Normal' },
+  { id: 'multiply', name: 'Multiply' }
+];
+
+const GRAPHITE_TOOLS = ['pencil', 'mechanicalPencil'];
+
+// Graphite is translucent and darkens whatever lies beneath; paint and ink cover it
+export const getDefaultBlendMode = (tool: string): LayerBlendMode =>
+  GRAPHITE_TOOLS.includes(tool) ? 'multiply' : 'normal';
+
+export const createLayer = (name: string, overrides?: Partial<Omit<ArtworkLayer, 'id' | 'name'>>): ArtworkLayer => ({
+  id: `layer_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+  name,
+  visible: true,
+  locked: false,
+  opacity: 1,
+  blendMode: 'multiply',
+  ...overrides
+});
+
+export const createDefaultLayers = () => [createLayer('Layer 1')];
+
+// First "Layer N" name not already taken
+export const getNextLayerName = (layers: ArtworkLayer[]) => {
+  let index = layers.length + 1;
+  while (layers.some(layer => layer.name === `Layer ${index}`)) index++;
+  return `Layer ${index}`;
+};
+
+// Split the drawing-order stroke list into one list per layer. Strokes keep their
+// relative order, so erasers still only remove what was drawn before them.
+export const groupSegmentsByLayer = (layers: ArtworkLayer[], segments: StrokeSegment[]) => {
+  const groups = new Map<string, StrokeSegment[]>(layers.map(layer => [layer.id, []]));
+  segments.forEach(segment => groups.get(segment.layerId)?.push(segment));
+  return groups;
+};
@@ -0,0 +1,44 @@
+import type { ToolPhysics } from './PhysicsEngine';
+
+export type StumpTip = ToolPhysics['blendingStump']['tip'];
+export type BlendingStumpSettings = ToolPhysics['blendingStump'];
+
+export interface StumpTipProperties {
+  name: string;
+  description: string;
+  radius: number; // Surface units of paper touching at light pressure
+  squash: number; // Extra contact radius when pressed hard
+  bodyRadius: number; // Of the 3D stick
+  pointLength: number; // Of its tapered point
+}
+
+export const STUMP_TIPS: Record<StumpTip, StumpTipProperties> = {
+  tortillon: {
+    name: 'Tortillon',
+    description: 'Tightly rolled paper point for small areas and soft edges',
+    radius: 0.006,
+    squash: 0.006,
+    bodyRadius: 0.022,
+    pointLength: 0.14
+  },
+  stump: {
+    name: 'Stump',
+    description: 'Firm pressed-paper stick for broad, even blends',
+    radius: 0.016,
+    squash: 0.012,
+    bodyRadius: 0.04,
+    pointLength: 0.18
+  }
+};
+
+export const STUMP_TIP_IDS = Object.keys(STUMP_TIPS) as StumpTip[];
+
+const MAX_PICKUP = 0.6; // Share of the graphite under it one pass can take up at full pickup and pressure
+
+// Radius of paper in contact: the point flattens as it is pressed
+export const getStumpContactRadius = ({ tip }: BlendingStumpSettings, pressure: number) =>
+  STUMP_TIPS[tip].radius + STUMP_TIPS[tip].squash * pressure;
+
+// Share of the graphite under the stump one pass takes up; pressing harder drags more along
+export const getStumpPickup = ({ pickup }: BlendingStumpSettings, pressure: number) =>
+  MAX_PICKUP * pickup * (0.3 + 0.7 * pressure);
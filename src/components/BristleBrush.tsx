@@ -0,0 +1,186 @@
+import * as THREE from 'three';
+import type { ToolPhysics } from './PhysicsEngine';
+
+export type BristleShape = ToolPhysics['brush']['bristleShape'];
+
+export type BristleSettings = Pick<
+  ToolPhysics['brush'],
+  'bristleCount' | 'bristleStiffness' | 'hairElasticity' | 'bristleShape' | 'tipSize'
+>;
+
+export const getBristleSettings = (
+  { bristleCount, bristleStiffness, hairElasticity, bristleShape, tipSize }: ToolPhysics['brush']
+): BristleSettings => ({ bristleCount, bristleStiffness, hairElasticity, bristleShape, tipSize });
+
+export const BRISTLE_SHAPES: { id: BristleShape; name: string }[] = [
+  { id: 'round', name: 'Round' },
+  { id: 'flat', name: 'Flat' },
+  { id: 'filbert', name: 'Filbert' },
+  { id: 'fan', name: 'Fan' },
+  { id: 'detail', name: 'Detail' }
+];
+
+const CHAIN_SEGMENTS = 4; // Springs per hair
+const ITERATIONS = 4; // Constraint passes per step
+const HAIR_RADIUS = 0.0015; // Hairs rest this far above the surface plane
+const FERRULE_RADIUS_PER_TIP_SIZE = 0.006; // Surface units of ferrule radius per ToolPhysics tipSize
+const SURFACE_FRICTION = 0.85; // Share of sideways motion a hair on the surface loses each step
+const SPLAY_LEAN = 0.15; // Outward lean of every hair, so a pressed brush spreads rather than buckles
+
+interface Bristle {
+  root: THREE.Vector3; // In the ferrule's frame
+  rest: THREE.Vector3; // Unit direction of the relaxed hair in the ferrule's frame
+  segmentLength: number;
+  nodes: THREE.Vector3[]; // World space, root first
+  previous: THREE.Vector3[];
+}
+
+// Root position and relative length of each hair, by the shape of the ferrule
+const layoutBristles = (shape: BristleShape, count: number, radius: number) => {
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  return Array.from({ length: count }, (_, i) => {
+    const t = count > 1 ? i / (count - 1) : 0.5;
+    const across = t * 2 - 1; // -1..1 along a flat ferrule
+    const jitter = Math.sin(i * 12.9898) * 0.5; // Fixed per hair so the layout is stable
+    switch (shape) {
+      case 'flat':
+      case 'filbert': {
+        const x = across * radius;
+        const z = jitter * radius * 0.35;
+        // A filbert's hairs shorten towards the edges into a rounded end
+        const length = shape === 'filbert' ? 1 - 0.3 * across * across : 1;
+        return { x, z, length, fan: 0 };
+      }
+      case 'fan': {
+        // A thin arc of hairs that fan out well past the ferrule
+        return { x: across * radius * 0.8, z: jitter * radius * 0.15, length: 1, fan: across * 1.2 };
+      }
+      default: {
+        // Round and detail: a disc of hairs, longest in the middle so they come to a point
+        const spread = shape === 'detail' ? radius * 0.4 : radius;
+        const r = Math.sqrt((i + 0.5) / count) * spread;
+        const angle = i * golden;
+        const normalized = r / spread;
+        const taper = shape === 'detail' ? 0.4 : 0.25;
+        return { x: Math.cos(angle) * r, z: Math.sin(angle) * r, length: 1 - taper * normalized * normalized, fan: 0 };
+      }
+    }
+  });
+};
+
+// Hairs of a paint brush as damped spring chains hanging from the ferrule. Each step
+// the chains follow the handle, try to spring back to their rest shape, rest on the
+// surface plane and drag against it, so a pressed brush splays and a dragged one trails.
+export class BristleBrush {
+  readonly bristles: Bristle[];
+  private readonly stiffness: number;
+  private readonly damping: number;
+  private settled = false; // Hairs are hung from the ferrule on the first step
+  private readonly ferruleWorld = new THREE.Matrix4();
+  private readonly target = new THREE.Vector3();
+  private readonly direction = new THREE.Vector3();
+  private readonly velocity = new THREE.Vector3();
+
+  // `rootY` is the bottom of the ferrule and `tipY` where the longest hair ends, both in the brush's frame
+  constructor(settings: BristleSettings, rootY: number, tipY: number) {
+    const radius = settings.tipSize * FERRULE_RADIUS_PER_TIP_SIZE;
+    const hairLength = Math.abs(rootY - tipY);
+    this.stiffness = THREE.MathUtils.clamp(settings.bristleStiffness, 0.05, 1) * 0.35;
+    // Springier hair keeps more of its motion between steps, so it whips back further
+    this.damping = 0.6 + 0.35 * THREE.MathUtils.clamp(settings.hairElasticity, 0, 1);
+
+    this.bristles = layoutBristles(settings.bristleShape, settings.bristleCount, radius).map(({ x, z, length, fan }) => {
+      const outward = new THREE.Vector3(x, 0, z).multiplyScalar(SPLAY_LEAN / radius);
+      return {
+        root: new THREE.Vector3(x, rootY, z),
+        rest: new THREE.Vector3(fan, -1, 0).add(outward).normalize(),
+        segmentLength: (hairLength * length) / CHAIN_SEGMENTS,
+        nodes: Array.from({ length: CHAIN_SEGMENTS + 1 }, () => new THREE.Vector3()),
+        previous: Array.from({ length: CHAIN_SEGMENTS + 1 }, () => new THREE.Vector3())
+      };
+    });
+  }
+
+  // Hang every hair straight from the ferrule at its rest shape
+  reset(ferrule: THREE.Matrix4) {
+    this.bristles.forEach(bristle => {
+      const rest = this.direction.copy(bristle.rest).transformDirection(ferrule);
+      bristle.nodes[0].copy(bristle.root).applyMatrix4(ferrule);
+      for (let k = 1; k <= CHAIN_SEGMENTS; k++) {
+        bristle.nodes[k].copy(bristle.nodes[k - 1]).addScaledVector(rest, bristle.segmentLength);
+      }
+      bristle.previous.forEach((node, k) => node.copy(bristle.nodes[k]));
+    });
+  }
+
+  // Advance one frame with the brush at world matrix `ferrule` over the surface plane at `surfaceY`
+  step(ferrule: THREE.Matrix4, surfaceY: number) {
+    if (!this.settled) {
+      this.reset(ferrule);
+      this.settled = true;
+    }
+    this.ferruleWorld.copy(ferrule);
+    const floor = surfaceY + HAIR_RADIUS;
+
+    this.bristles.forEach(bristle => {
+      const { nodes, previous, segmentLength } = bristle;
+      const rest = this.direction.copy(bristle.rest).transformDirection(this.ferruleWorld);
+
+      nodes[0].copy(bristle.root).applyMatrix4(this.ferruleWorld);
+      previous[0].copy(nodes[0]);
+
+      for (let k = 1; k <= CHAIN_SEGMENTS; k++) {
+        this.velocity.subVectors(nodes[k], previous[k]).multiplyScalar(this.damping);
+        previous[k].copy(nodes[k]);
+        nodes[k].add(this.velocity);
+      }
+
+      for (let pass = 0; pass < ITERATIONS; pass++) {
+        for (let k = 1; k <= CHAIN_SEGMENTS; k++) {
+          // Shape memory: each joint springs back towards the straight rest line from its parent
+          this.target.copy(nodes[k - 1]).addScaledVector(rest, segmentLength);
+          nodes[k].lerp(this.target, this.stiffness);
+
+          // Hair doesn't stretch
+          this.target.subVectors(nodes[k], nodes[k - 1]);
+          const length = this.target.length();
+          if (length > 1e-9) nodes[k].copy(nodes[k - 1]).addScaledVector(this.target, segmentLength / length);
+
+          // Resting on the surface: held up by it, and gripped so it trails behind the handle
+          if (nodes[k].y < floor) {
+            nodes[k].y = floor;
+            nodes[k].x = THREE.MathUtils.lerp(nodes[k].x, previous[k].x, SURFACE_FRICTION / ITERATIONS);
+            nodes[k].z = THREE.MathUtils.lerp(nodes[k].z, previous[k].z, SURFACE_FRICTION / ITERATIONS);
+          }
+        }
+      }
+    });
+  }
+
+  // Where each hair touches the surface, relative to `origin`, as flat [dx, dz, weight]
+  // triples in hair order. Weight is the share of the hair lying on the surface; hairs
+  // in the air report 0. Null when no hair touches.
+  getContacts(origin: THREE.Vector3, surfaceY: number): number[] | null {
+    const threshold = surfaceY + HAIR_RADIUS * 2;
+    const contacts: number[] = [];
+    let touching = false;
+
+    this.bristles.forEach(({ nodes }) => {
+      let lying = 0;
+      let contact: THREE.Vector3 | null = null;
+      for (let k = CHAIN_SEGMENTS; k >= 1; k--) {
+        if (nodes[k].y > threshold) continue;
+        lying++;
+        if (!contact) contact = nodes[k]; // The tip-most point on the surface lays the paint
+      }
+      if (!contact) {
+        contacts.push(0, 0, 0);
+        return;
+      }
+      touching = true;
+      contacts.push(contact.x - origin.x, contact.z - origin.z, lying / CHAIN_SEGMENTS);
+    });
+
+    return touching ? contacts : null;
+  }
+}
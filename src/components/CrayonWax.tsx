@@ -0,0 +1,32 @@
+import type { ToolPhysics } from './PhysicsEngine';
+
+const SHARP_TIP_RADIUS = 0.012; // Surface units; a fresh crayon's rounded point
+const BLUNT_TIP_RADIUS = 0.035; // Worn down to the full width of the stick
+const WEAR_PER_UNIT = 0.04; // Bluntness gained per surface unit drawn at full pressure with medium wax
+
+export type CrayonSettings = ToolPhysics['crayon'];
+
+// The point of a wax crayon, which blunts as it is drawn with. Softer wax wears
+// away faster and a blunt crayon lays a broader, softer-edged mark.
+export class CrayonTip {
+  bluntness = 0; // 0 fresh point to 1 worn flat
+
+  reset() {
+    this.bluntness = 0;
+  }
+
+  wear(distance: number, pressure: number, { waxHardness }: CrayonSettings) {
+    const softness = 1.5 - waxHardness;
+    this.bluntness = Math.min(1, this.bluntness + distance * pressure * softness * WEAR_PER_UNIT);
+  }
+
+  // Radius of the wax in contact: the worn face, squashed wider under pressure
+  getContactRadius(pressure: number) {
+    const radius = SHARP_TIP_RADIUS + (BLUNT_TIP_RADIUS - SHARP_TIP_RADIUS) * this.bluntness;
+    return radius * (0.8 + 0.4 * pressure);
+  }
+}
+
+// Share of a full mark's pigment the wax gives up: dense, soft wax lays the most
+export const getCrayonCoverage = ({ waxHardness, pigmentDensity }: CrayonSettings) =>
+  (0.6 + 0.4 * pigmentDensity) * (1.15 - 0.3 * waxHardness);
@@ -0,0 +1,78 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { RecentDocument } from './ArtworkDocument';
+import { Save, FilePlus, FileClock } from 'lucide-react';
+
+interface DocumentMenuProps {
+  documentId: string;
+  documentName: string;
+  lastSavedAt: number | null;
+  recentDocuments: RecentDocument[];
+  onSave: () => void;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+}
+
+export const DocumentMenu = ({
+  documentId,
+  documentName,
+  lastSavedAt,
+  recentDocuments,
+  onSave,
+  onNew,
+  onOpen
+}: DocumentMenuProps) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" title={documentName}>
+          <Save className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel className="space-y-1">
+          <div className="truncate">{documentName}</div>
+          <div className="text-xs font-normal text-muted-foreground">
+            {lastSavedAt ? `Saved ${new Date(lastSavedAt).toLocaleTimeString()}` : 'Not saved yet'}
+          </div>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onSave}>
+          <Save className="w-4 h-4 mr-2" />
+          Save
+          <DropdownMenuShortcut>Ctrl+S</DropdownMenuShortcut>
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={onNew}>
+          <FilePlus className="w-4 h-4 mr-2" />
+          New Artwork
+        </DropdownMenuItem>
+
+        {recentDocuments.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Recent</DropdownMenuLabel>
+            {recentDocuments.map((doc) => (
+              <DropdownMenuItem
+                key={doc.id}
+                disabled={doc.id === documentId}
+                onSelect={() => onOpen(doc.id)}
+              >
+                <FileClock className="w-4 h-4 mr-2 shrink-0" />
+                <span className="truncate flex-1">{doc.name}</span>
+                <span className="ml-2 text-xs text-muted-foreground">{doc.strokeCount} strokes</span>
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -1,10 +1,12 @@
 import { useRef, useState, useCallback } from 'react';
 import * as THREE from 'three';
+import { StrokePaint } from './PaintMedia';
+import type { StrokeEraser } from './EraserMaterial';
 
 export interface DrawingStroke {
   id: string;
-  points: THREE.Vector3[];
-  pressure: number;
+  points: StrokePoint[];
+  pressure: number; // Pressure at the first sample; per-point values live on `points`
   toolType: string;
   color: string;
   timestamp: number;
@@ -12,13 +14,75 @@ export interface DrawingStroke {
   opacity: number;
 }
 
+// Footprint of the tool on the surface at a single sample
+export interface StrokeContact {
+  shape: 'point' | 'line' | 'oval';
+  area: number;
+  orientation: number; // Radians in the surface plane
+}
+
 export interface StrokePoint {
   position: THREE.Vector3;
   pressure: number;
-  timestamp: number;
-  velocity: number;
+  timestamp: number; // Epoch ms
+  velocity: number; // Surface units per second
+  tilt: number; // Radians away from vertical
+  azimuth: number; // Radians; direction the tool leans in the surface plane
+  roll: number;
+  contact: StrokeContact;
+  width: number; // Mark width resolved for this sample
+  opacity: number;
+  load: number; // 0-1 paint left on the tool; dry media always carry a full load
+  bristles?: number[]; // Brush only: [dx, dz, weight] per hair relative to position; weight 0 when lifted
 }
 
+export const DEFAULT_STROKE_CONTACT: StrokeContact = { shape: 'point', area: 0, orientation: 0 };
+
+export const createStrokePoint = (
+  position: THREE.Vector3,
+  sample: Partial<Omit<StrokePoint, 'position'>> = {}
+): StrokePoint => ({
+  position: position.clone(),
+  pressure: 0.5,
+  timestamp: 0,
+  velocity: 0,
+  tilt: 0,
+  azimuth: 0,
+  roll: 0,
+  contact: DEFAULT_STROKE_CONTACT,
+  width: 1.5,
+  opacity: 1,
+  load: 1,
+  ...sample
+});
+
+// Surface units per unit of stroke width (roughly one screen pixel at the default camera distance)
+export const STROKE_WIDTH_TO_WORLD = 0.008;
+
+// Finished mark as rendered on the surface and stored in the artwork document.
+// `width` and `opacity` summarise the stroke for consumers that can't vary them
+// along the path (SVG export, history estimates); renderers read the points.
+export interface StrokeSegment {
+  id: string;
+  points: StrokePoint[];
+  width: number;
+  color: string;
+  opacity: number;
+  tool: string;
+  layerId: string;
+  paint?: StrokePaint; // Wet medium of brush strokes; dry media leave it unset
+  eraser?: StrokeEraser; // Eraser strokes only; older documents erased outright without one
+  leadHardness?: number; // Graphite pencil strokes only: ToolPhysics leadHardness they were drawn with
+  laidAt?: number; // Studio clock seconds at the first sample; wet paint dries from here
+  open?: boolean; // Still growing (being drawn, or cut short mid-replay); renderers hold its far end back
+}
+
+// Running summary of a growing stroke: widest mark and mean darkness
+export const summarizeStrokePoints = (points: StrokePoint[]) => ({
+  width: points.reduce((max, point) => Math.max(max, point.width), 0),
+  opacity: points.length > 0 ? points.reduce((sum, point) => sum + point.opacity, 0) / points.length : 0
+});
+
 export const useDrawingStrokeSystem = () => {
   const [strokes, setStrokes] = useState<DrawingStroke[]>([]);
   const [currentStroke, setCurrentStroke] = useState<DrawingStroke | null>(null);
@@ -31,15 +95,17 @@ export const useDrawingStrokeSystem = () => {
     toolType: string, 
     color: string = '#2F2F2F'
   ) => {
+    const width = calculateWidth(pressure, toolType);
+    const opacity = calculateOpacity(pressure, toolType);
     const newStroke: DrawingStroke = {
       id: `stroke_${Date.now()}_${Math.random()}`,
-      points: [position.clone()],
+      points: [createStrokePoint(position, { pressure, timestamp: Date.now(), width, opacity })],
       pressure,
       toolType,
       color,
       timestamp: Date.now(),
-      width: calculateWidth(pressure, toolType),
-      opacity: calculateOpacity(pressure, toolType)
+      width,
+      opacity
     };
     
     setCurrentStroke(newStroke);
@@ -55,7 +121,7 @@ export const useDrawingStrokeSystem = () => {
 
     const now = Date.now();
     const velocity = lastPoint.current 
-      ? position.distanceTo(lastPoint.current) / Math.max(1, now - lastTimestamp.current)
+      ? position.distanceTo(lastPoint.current) / (Math.max(1, now - lastTimestamp.current) / 1000)
       : 0;
 
     // Only add point if it's far enough from last point for smooth curves
@@ -63,13 +129,17 @@ export const useDrawingStrokeSystem = () => {
       setCurrentStroke(prev => {
         if (!prev) return null;
         
-        return {
-          ...prev,
-          points: [...prev.points, position.clone()],
-          // Update stroke properties based on current pressure (not stored pressure)
-          width: calculateWidth(pressure, prev.toolType),
-          opacity: calculateOpacity(pressure, prev.toolType)
-        };
+        const points = [
+          ...prev.points,
+          createStrokePoint(position, {
+            pressure,
+            timestamp: now,
+            velocity,
+            width: calculateWidth(pressure, prev.toolType),
+            opacity: calculateOpacity(pressure, prev.toolType)
+          })
+        ];
+        return { ...prev, points, ...summarizeStrokePoints(points) };
       });
       
       lastPoint.current = position.clone();
@@ -0,0 +1,157 @@
+import type { ToolPhysics } from './PhysicsEngine';
+import { StrokeSegment, STROKE_WIDTH_TO_WORLD } from './DrawingStrokeSystem';
+
+export type EraserMaterial = ToolPhysics['eraser']['material'];
+export type EraserSettings = ToolPhysics['eraser'];
+
+export interface EraserMaterialProperties {
+  name: string;
+  description: string;
+  lift: number; // Share of the graphite under it one pass lifts at full pressure
+  inkLift: number; // Its lift on ink as a share of its lift on graphite
+  smudge: number; // Share of the lifted graphite dragged along and smeared at light pressure
+  wear: number; // How fast the working face rubs (or, kneaded, squashes) flat
+  crumbs: number; // Crumbs shed per unit of residue production
+  color: string; // Of the crumbs it leaves
+}
+
+export const ERASER_MATERIALS: Record<EraserMaterial, EraserMaterialProperties> = {
+  rubber: {
+    name: 'Rubber',
+    description: 'Everyday pink eraser: smears when barely pressed, crumbles as it works',
+    lift: 0.55,
+    inkLift: 0.08,
+    smudge: 0.5,
+    wear: 1,
+    crumbs: 1,
+    color: '#E8A0A8'
+  },
+  vinyl: {
+    name: 'Vinyl',
+    description: 'Erases cleanly, even some ink, but wears down fast',
+    lift: 0.9,
+    inkLift: 0.25,
+    smudge: 0,
+    wear: 3,
+    crumbs: 0.6,
+    color: '#F4F4F0'
+  },
+  kneaded: {
+    name: 'Kneaded',
+    description: 'Lifts gently without crumbs; knead it back into a clean point as it flattens and dirties',
+    lift: 0.3,
+    inkLift: 0,
+    smudge: 0,
+    wear: 2,
+    crumbs: 0,
+    color: '#9A9A9A'
+  },
+  gum: {
+    name: 'Gum',
+    description: 'Soft and gentle on paper, sheds a lot of crumbs',
+    lift: 0.45,
+    inkLift: 0.03,
+    smudge: 0.1,
+    wear: 4,
+    crumbs: 2.5,
+    color: '#D9C49A'
+  }
+};
+
+export const ERASER_MATERIAL_IDS = Object.keys(ERASER_MATERIALS) as EraserMaterial[];
+
+// What an eraser stroke was made with, recorded so replaying it lifts the same way
+export interface StrokeEraser {
+  material: EraserMaterial;
+  residue: number; // ToolPhysics residueProduction when the stroke was made
+}
+
+const VERTEX_CONTACT_AREA = Math.PI * 0.001 * 0.001; // LeadTipGeometry's contact area per touching vertex
+const FACE_WIDTH = 8; // Stroke width of a fresh eraser's working face
+const WORN_FACE_WIDTH = 16; // Worn to a broad rounded stub
+const WEAR_SCALE = 20; // Turns ToolPhysics wearRate into wear per surface unit at full pressure
+const DIRT_PER_UNIT = 0.06; // Graphite a kneaded eraser takes up per surface unit at full pressure
+const SMUDGE_PRESSURE = 0.35; // Below this a rubber eraser pushes graphite around more than it lifts it
+const CRUMBS_PER_UNIT = 200; // Crumbs per surface unit at full pressure and residue production 1
+const MAX_CRUMBS_PER_STROKE = 600;
+
+// Share of the graphite an eraser lifts that it smears along instead of taking up
+export const getEraserSmudge = (material: EraserMaterial, pressure: number) =>
+  ERASER_MATERIALS[material].smudge * Math.max(0, 1 - pressure / SMUDGE_PRESSURE);
+
+// The working end of the eraser. Rubber, vinyl and gum rub away into a broad stub;
+// a kneaded eraser squashes flat and fills with graphite until it is kneaded again.
+export class EraserBlock {
+  wear = 0; // 0 fresh edge to 1 worn to a stub
+  dirt = 0; // 0 clean to 1 saturated with graphite
+
+  reset() {
+    this.wear = 0;
+    this.dirt = 0;
+  }
+
+  rub(distance: number, pressure: number, { material, wearRate }: EraserSettings) {
+    if (material === 'kneaded') this.dirt = Math.min(1, this.dirt + distance * pressure * DIRT_PER_UNIT);
+    this.wear = Math.min(1, this.wear + distance * pressure * wearRate * WEAR_SCALE * ERASER_MATERIALS[material].wear);
+  }
+
+  // Knead back into a clean point; only a kneaded eraser can be reshaped, so callers check the material
+  knead() {
+    this.wear = 0;
+    this.dirt = 0;
+  }
+
+  // Mark width of the face in contact: broader as it wears and as more of it touches
+  getWidth(contactArea: number) {
+    const touching = Math.max(1, contactArea / VERTEX_CONTACT_AREA);
+    return (FACE_WIDTH + (WORN_FACE_WIDTH - FACE_WIDTH) * this.wear) * (0.8 + 0.2 * Math.sqrt(touching));
+  }
+
+  // Share of the graphite under it one pass lifts at `pressure`
+  getLift({ material }: EraserSettings, pressure: number) {
+    const pushed = getEraserSmudge(material, pressure);
+    return ERASER_MATERIALS[material].lift * (0.4 + 0.6 * pressure) * (1 - 0.6 * this.dirt) * (1 - pushed);
+  }
+}
+
+const hash = (x: number, z: number) => {
+  const value = Math.sin(x * 127.1 + z * 311.7) * 43758.5453;
+  return value - Math.floor(value);
+};
+
+export interface EraserCrumb {
+  x: number;
+  z: number;
+  size: number;
+  rotation: number;
+}
+
+// Crumbs an eraser stroke sheds along its path, scattered over the width it rubbed.
+// Placement is hashed from the samples, so the same stroke always leaves the same crumbs.
+export const scatterCrumbs = (segment: StrokeSegment): EraserCrumb[] => {
+  if (!segment.eraser) return [];
+  const rate = CRUMBS_PER_UNIT * segment.eraser.residue * ERASER_MATERIALS[segment.eraser.material].crumbs;
+  const crumbs: EraserCrumb[] = [];
+  let owed = 0;
+
+  for (let i = 1; i < segment.points.length && crumbs.length < MAX_CRUMBS_PER_STROKE; i++) {
+    const a = segment.points[i - 1];
+    const b = segment.points[i];
+    owed += a.position.distanceTo(b.position) * b.pressure * rate;
+    for (; owed >= 1 && crumbs.length < MAX_CRUMBS_PER_STROKE; owed--) {
+      const seed = i * 31 + owed;
+      const t = hash(seed, b.position.x);
+      const spread = (hash(b.position.z, seed) - 0.5) * b.width * STROKE_WIDTH_TO_WORLD * 1.6;
+      const x = a.position.x + (b.position.x - a.position.x) * t;
+      const z = a.position.z + (b.position.z - a.position.z) * t;
+      const angle = hash(x, z) * Math.PI * 2;
+      crumbs.push({
+        x: x + Math.cos(angle) * spread,
+        z: z + Math.sin(angle) * spread,
+        size: 0.008 + 0.012 * hash(z, x),
+        rotation: angle
+      });
+    }
+  }
+  return crumbs;
+};
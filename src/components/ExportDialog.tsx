@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ExportFormat,
+  RasterExportOptions,
+  SvgExportOptions,
+  SvgUnit,
+  PRINT_SIZES,
+  MAX_EXPORT_PIXELS,
+  SURFACE_WIDTH,
+  SURFACE_HEIGHT,
+  getExportPixelSize,
+  downloadBlob,
+  toExportFilename
+} from './ArtworkExport';
+import { Download, Loader2 } from 'lucide-react';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentName: string;
+  onExportRaster: (options: RasterExportOptions) => Promise<Blob>;
+  onExportSvg: (options: SvgExportOptions) => Blob;
+}
+
+const DPI_OPTIONS = [72, 150, 300, 600];
+const MM_PER_INCH = 25.4;
+const MIN_CUSTOM_WIDTH_MM = 10;
+const MAX_CUSTOM_WIDTH_MM = 2000;
+
+// Custom width as typed, clamped to what can be exported; blank or partial input falls back to the minimum
+const parseCustomWidth = (text: string) =>
+  Math.min(MAX_CUSTOM_WIDTH_MM, Math.max(MIN_CUSTOM_WIDTH_MM, Number(text) || 0));
+
+export const ExportDialog = ({ open, onOpenChange, documentName, onExportRaster, onExportSvg }: ExportDialogProps) => {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [svgUnit, setSvgUnit] = useState<SvgUnit>('mm');
+  const [sizeId, setSizeId] = useState('a4');
+  const [customWidthText, setCustomWidthText] = useState('300'); // Raw, so the field can be cleared while typing
+  const [dpi, setDpi] = useState(300);
+  const [transparent, setTransparent] = useState(false);
+  const [quality, setQuality] = useState(0.92);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const widthMm = sizeId === 'custom'
+    ? parseCustomWidth(customWidthText)
+    : PRINT_SIZES.find(size => size.id === sizeId)?.widthMm ?? 297;
+  const pixelSize = getExportPixelSize(widthMm, dpi);
+  const isClamped = pixelSize.width > MAX_EXPORT_PIXELS;
+  const outputWidth = Math.min(pixelSize.width, MAX_EXPORT_PIXELS);
+  const outputHeight = Math.round(outputWidth * (SURFACE_HEIGHT / SURFACE_WIDTH));
+  const outputDpi = isClamped ? Math.floor(outputWidth / (widthMm / MM_PER_INCH)) : dpi; // What the pixels give at the print size
+  const isVector = format === 'svg';
+  const supportsAlpha = format !== 'jpeg';
+  const svgWidth = svgUnit === 'in' ? widthMm / MM_PER_INCH : widthMm;
+  const formatLength = (value: number) => `${Number(value.toFixed(2))} ${svgUnit}`;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    // Let the dialog paint its busy state before the synchronous GPU work starts
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    try {
+      if (format === 'svg') {
+        downloadBlob(onExportSvg({ unit: svgUnit, width: svgWidth }), toExportFilename(documentName, 'svg'));
+        toast({ title: "Export Complete", description: `SVG saved at ${formatLength(svgWidth)} wide` });
+      } else {
+        const blob = await onExportRaster({
+          format,
+          width: outputWidth,
+          transparent: supportsAlpha && transparent,
+          quality,
+          dpi: outputDpi
+        });
+        downloadBlob(blob, toExportFilename(documentName, format === 'jpeg' ? 'jpg' : format));
+        const resolution = format === 'webp'
+          ? `${outputWidth} × ${outputHeight} px (WebP stores no DPI)`
+          : isClamped ? `${outputDpi} DPI (limited to ${MAX_EXPORT_PIXELS} px wide)` : `${dpi} DPI`;
+        toast({ title: "Export Complete", description: `${format.toUpperCase()} saved at ${resolution}` });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The image could not be rendered",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Artwork</DialogTitle>
+          <DialogDescription>
+            {isVector
+              ? 'Writes each stroke as an editable vector path in real-world units.'
+              : 'Renders the drawing surface top-down without the tool or studio props.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="png">PNG</SelectItem>
+                  <SelectItem value="jpeg">JPEG</SelectItem>
+                  <SelectItem value="webp">WebP</SelectItem>
+                  <SelectItem value="svg">SVG (vector)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isVector ? (
+              <div className="space-y-2">
+                <Label>Units</Label>
+                <Select value={svgUnit} onValueChange={(value) => setSvgUnit(value as SvgUnit)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mm">Millimeters</SelectItem>
+                    <SelectItem value="in">Inches</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Resolution</Label>
+                <Select value={String(dpi)} onValueChange={(value) => setDpi(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DPI_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={String(option)}>{option} DPI</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Print Size</Label>
+            <Select value={sizeId} onValueChange={setSizeId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRINT_SIZES.map((size) => (
+                  <SelectItem key={size.id} value={size.id}>{size.name}</SelectItem>
+                ))}
+                <SelectItem value="custom">Custom width</SelectItem>
+              </SelectContent>
+            </Select>
+            {sizeId === 'custom' && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={MIN_CUSTOM_WIDTH_MM}
+                  max={MAX_CUSTOM_WIDTH_MM}
+                  value={customWidthText}
+                  onChange={(event) => setCustomWidthText(event.target.value)}
+                  onBlur={() => setCustomWidthText(String(parseCustomWidth(customWidthText)))}
+                  onKeyDown={(event) => event.stopPropagation()} // Keep studio shortcuts out of the text field
+                />
+                <span className="text-sm text-muted-foreground">mm</span>
+              </div>
+            )}
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant="secondary" className="font-mono">
+                {isVector
+                  ? `${formatLength(svgWidth)} × ${formatLength(svgWidth * (SURFACE_HEIGHT / SURFACE_WIDTH))}`
+                  : `${outputWidth} × ${outputHeight} px`}
+              </Badge>
+              {!isVector && isClamped && <span>Limited to {MAX_EXPORT_PIXELS} px wide ({outputDpi} DPI)</span>}
+            </div>
+          </div>
+
+          {(format === 'jpeg' || format === 'webp') && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Quality</Label>
+                <Badge variant="secondary">{Math.round(quality * 100)}%</Badge>
+              </div>
+              <Slider
+                value={[quality]}
+                onValueChange={(value) => setQuality(value[0])}
+                min={0.5}
+                max={1}
+                step={0.01}
+              />
+            </div>
+          )}
+
+          {!isVector && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-transparent"
+                checked={supportsAlpha && transparent}
+                disabled={!supportsAlpha}
+                onCheckedChange={(checked) => setTransparent(checked === true)}
+              />
+              <Label htmlFor="export-transparent">
+                Transparent background {supportsAlpha ? '(strokes only)' : '(not available for JPEG)'}
+              </Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
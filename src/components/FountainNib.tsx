@@ -0,0 +1,63 @@
+import * as THREE from 'three';
+import type { ToolPhysics } from './PhysicsEngine';
+
+export type FountainNib = ToolPhysics['pen']['nib'];
+
+export interface FountainNibProperties {
+  name: string;
+  description: string;
+  edgeWidth: number; // Stroke width drawing square to the nib's edge
+  hairline: number; // Stroke width drawing along the edge
+  flex: number; // Extra width when full pressure spreads the tines
+  pooling: number; // 0-1, how much ink floods out where the nib rests
+}
+
+export const FOUNTAIN_NIBS: Record<FountainNib, FountainNibProperties> = {
+  fine: {
+    name: 'Fine',
+    description: 'Rounded tip with only a hint of line variation',
+    edgeWidth: 2.2,
+    hairline: 1.6,
+    flex: 0.3,
+    pooling: 0.3
+  },
+  italic: {
+    name: 'Italic',
+    description: 'Broad edge: thick across the nib, hairline along it',
+    edgeWidth: 7,
+    hairline: 1,
+    flex: 0.2,
+    pooling: 0.5
+  },
+  flex: {
+    name: 'Flex',
+    description: 'Fine tines that spread into swells under pressure',
+    edgeWidth: 1.8,
+    hairline: 0.9,
+    flex: 6,
+    pooling: 0.6
+  }
+};
+
+export const FOUNTAIN_NIB_IDS = Object.keys(FOUNTAIN_NIBS) as FountainNib[];
+
+const EDGE_AZIMUTH = Math.PI / 4; // Edge held 45° to the surface's X axis, the classic italic pen angle
+const TINE_SPREAD_PRESSURE = 0.3; // Pressure the tines take before they start to part
+const POOLING_SPEED = 0.5; // Surface units per second below which ink collects under the nib
+
+// Azimuth (as Scene measures it, from +Z towards +X) the nib's edge lies along.
+// Rolling the pen turns the nib with it.
+export const getNibEdgeAzimuth = (rollDegrees: number) => EDGE_AZIMUTH + THREE.MathUtils.degToRad(rollDegrees);
+
+// Stroke width of a nib moving along `strokeAzimuth`: full width square to the edge,
+// hairline along it, swelling as pressure spreads the tines
+export const getNibLineWidth = (nib: FountainNib, strokeAzimuth: number, edgeAzimuth: number, pressure: number) => {
+  const { edgeWidth, hairline, flex } = FOUNTAIN_NIBS[nib];
+  const across = Math.abs(Math.sin(strokeAzimuth - edgeAzimuth));
+  const spread = Math.max(0, pressure - TINE_SPREAD_PRESSURE) / (1 - TINE_SPREAD_PRESSURE);
+  return hairline + (edgeWidth - hairline) * across + flex * spread * spread;
+};
+
+// 0-1 ink pooled under a nib moving at `velocity`: most where a stroke starts or the pen stops
+export const getInkPooling = (nib: FountainNib, velocity: number) =>
+  FOUNTAIN_NIBS[nib].pooling * Math.max(0, 1 - velocity / POOLING_SPEED);
@@ -0,0 +1,214 @@
+import { useMemo, useState, useCallback } from 'react';
+import { StrokeSegment } from './DrawingStrokeSystem';
+
+export interface HistoryCommand {
+  id: string;
+  label: string;
+  timestamp: number;
+  size: number; // Approximate bytes retained by this command
+  execute: () => void;
+  undo: () => void;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+}
+
+const DEFAULT_HISTORY_BYTES = 32 * 1024 * 1024;
+const COMMAND_OVERHEAD_BYTES = 256;
+const BYTES_PER_POINT = 256; // Vector3, per-sample fields and the contact object
+const BYTES_PER_BRISTLE_VALUE = 8;
+
+export const estimateSegmentBytes = (segment: StrokeSegment) =>
+  segment.points.reduce(
+    (sum, point) => sum + BYTES_PER_POINT + (point.bristles?.length ?? 0) * BYTES_PER_BRISTLE_VALUE,
+    COMMAND_OVERHEAD_BYTES
+  );
+
+// Linear command stack. Everything before the cursor is applied; everything after
+// it can be redone until a new command truncates it. The oldest commands are
+// dropped once the retained size exceeds the memory budget.
+export class HistoryStack {
+  private commands: HistoryCommand[] = [];
+  private cursor = 0;
+  private totalSize = 0;
+
+  constructor(private maxBytes = DEFAULT_HISTORY_BYTES) {}
+
+  execute(command: HistoryCommand) {
+    command.execute();
+    this.push(command);
+  }
+
+  // Record a command whose effect has already been applied
+  push(command: HistoryCommand) {
+    this.commands.splice(this.cursor).forEach(dropped => {
+      this.totalSize -= dropped.size;
+    });
+
+    this.commands.push(command);
+    this.cursor = this.commands.length;
+    this.totalSize += command.size;
+
+    while (this.totalSize > this.maxBytes && this.commands.length > 1) {
+      const oldest = this.commands.shift()!;
+      this.totalSize -= oldest.size;
+      this.cursor--;
+    }
+  }
+
+  undo(): HistoryCommand | null {
+    if (this.cursor === 0) return null;
+    const command = this.commands[--this.cursor];
+    command.undo();
+    return command;
+  }
+
+  redo(): HistoryCommand | null {
+    if (this.cursor >= this.commands.length) return null;
+    const command = this.commands[this.cursor++];
+    command.execute();
+    return command;
+  }
+
+  // Move to the state after `index` commands have been applied (0 = oldest kept state)
+  jumpTo(index: number) {
+    const target = Math.max(0, Math.min(this.commands.length, index));
+    while (this.cursor > target) this.undo();
+    while (this.cursor < target) this.redo();
+  }
+
+  clear() {
+    this.commands = [];
+    this.cursor = 0;
+    this.totalSize = 0;
+  }
+
+  getEntries(): HistoryEntry[] {
+    return this.commands.map(({ id, label, timestamp }) => ({ id, label, timestamp }));
+  }
+
+  getCursor() {
+    return this.cursor;
+  }
+
+  getTotalSize() {
+    return this.totalSize;
+  }
+
+  getMaxBytes() {
+    return this.maxBytes;
+  }
+}
+
+const createCommandId = () => `cmd_${Date.now()}_${Math.random()}`;
+
+type SegmentsSetter = (update: (prev: StrokeSegment[]) => StrokeSegment[]) => void;
+
+export const createStrokeCommand = (segment: StrokeSegment, setSegments: SegmentsSetter): HistoryCommand => ({
+  id: createCommandId(),
+  label: segment.tool === 'eraser' ? 'Erase' : `${segment.tool.charAt(0).toUpperCase() + segment.tool.slice(1)} stroke`,
+  timestamp: Date.now(),
+  size: estimateSegmentBytes(segment),
+  execute: () => setSegments(prev => [...prev, segment]),
+  undo: () => setSegments(prev => prev.filter(s => s.id !== segment.id))
+});
+
+export const createClearCommand = (
+  previous: StrokeSegment[],
+  setSegments: SegmentsSetter,
+  label = 'Clear canvas'
+): HistoryCommand => ({
+  id: createCommandId(),
+  label,
+  timestamp: Date.now(),
+  size: previous.reduce((sum, segment) => sum + estimateSegmentBytes(segment), COMMAND_OVERHEAD_BYTES),
+  execute: () => setSegments(() => []),
+  undo: () => setSegments(() => previous)
+});
+
+export const createActionCommand = (
+  label: string,
+  execute: () => void,
+  undo: () => void,
+  size = COMMAND_OVERHEAD_BYTES
+): HistoryCommand => ({
+  id: createCommandId(),
+  label,
+  timestamp: Date.now(),
+  size,
+  execute,
+  undo
+});
+
+// Generic before/after command for scalar or snapshot state (surface type, lead wear, ...)
+export const createValueCommand = <T,>(
+  label: string,
+  before: T,
+  after: T,
+  apply: (value: T) => void,
+  size = COMMAND_OVERHEAD_BYTES
+): HistoryCommand => createActionCommand(label, () => apply(after), () => apply(before), size);
+
+// Runs several commands as one history step; undo walks them in reverse
+export const createCompositeCommand = (label: string, commands: HistoryCommand[]): HistoryCommand => ({
+  id: createCommandId(),
+  label,
+  timestamp: Date.now(),
+  size: commands.reduce((sum, command) => sum + command.size, 0),
+  execute: () => commands.forEach(command => command.execute()),
+  undo: () => [...commands].reverse().forEach(command => command.undo())
+});
+
+// Custom hook exposing a HistoryStack with React re-render on every change
+export const useHistory = (maxBytes?: number) => {
+  const stack = useMemo(() => new HistoryStack(maxBytes), [maxBytes]);
+  const [, setRevision] = useState(0);
+  const bump = useCallback(() => setRevision(r => r + 1), []);
+
+  const execute = useCallback((command: HistoryCommand) => {
+    stack.execute(command);
+    bump();
+  }, [stack, bump]);
+
+  const undo = useCallback(() => {
+    const command = stack.undo();
+    bump();
+    return command;
+  }, [stack, bump]);
+
+  const redo = useCallback(() => {
+    const command = stack.redo();
+    bump();
+    return command;
+  }, [stack, bump]);
+
+  const jumpTo = useCallback((index: number) => {
+    stack.jumpTo(index);
+    bump();
+  }, [stack, bump]);
+
+  const clear = useCallback(() => {
+    stack.clear();
+    bump();
+  }, [stack, bump]);
+
+  const cursor = stack.getCursor();
+  const entries = stack.getEntries();
+
+  return {
+    entries,
+    cursor,
+    canUndo: cursor > 0,
+    canRedo: cursor < entries.length,
+    totalSize: stack.getTotalSize(),
+    maxBytes: stack.getMaxBytes(),
+    execute,
+    undo,
+    redo,
+    jumpTo,
+    clear
+  };
+};
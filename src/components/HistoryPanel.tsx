@@ -0,0 +1,86 @@
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { HistoryEntry } from './HistoryManager';
+import { History, Undo2, Redo2, X } from 'lucide-react';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  cursor: number;
+  totalSize: number;
+  maxBytes: number;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel = ({
+  entries,
+  cursor,
+  totalSize,
+  maxBytes,
+  onJump,
+  onUndo,
+  onRedo,
+  onClose
+}: HistoryPanelProps) => {
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  return (
+    <Card className="w-64 h-full ui-panel rounded-none border-y-0 flex flex-col">
+      <div className="flex items-center justify-between p-3 border-b border-border">
+        <h3 className="font-semibold flex items-center gap-2">
+          <History className="w-4 h-4" />
+          History
+        </h3>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={onUndo} disabled={cursor === 0} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onRedo} disabled={cursor >= entries.length} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+        {/* Index 0 is the state before the oldest retained command */}
+        <button
+          className={`w-full text-left rounded px-2 py-1.5 text-sm transition-colors ${cursor === 0 ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+          onClick={() => onJump(0)}
+        >
+          Start
+        </button>
+        {entries.map((entry, i) => {
+          const index = i + 1;
+          const isCurrent = index === cursor;
+          const isUndone = index > cursor;
+          return (
+            <button
+              key={entry.id}
+              className={`w-full text-left rounded px-2 py-1.5 text-sm flex items-center justify-between transition-colors ${
+                isCurrent ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+              } ${isUndone ? 'opacity-50 italic' : ''}`}
+              onClick={() => onJump(index)}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="text-xs font-mono opacity-70">{formatTime(entry.timestamp)}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="p-3 border-t border-border space-y-1">
+        <Progress value={(totalSize / maxBytes) * 100} className="h-1.5" />
+        <div className="text-xs text-muted-foreground">
+          {(totalSize / (1024 * 1024)).toFixed(1)} / {Math.round(maxBytes / (1024 * 1024))} MB history memory
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { ArtworkLayer, LayerBlendMode, LAYER_BLEND_MODES, MAX_LAYERS } from './ArtworkLayers';
+import { Layers, Plus, Trash2, Eye, EyeOff, Lock, Unlock, GripVertical, X } from 'lucide-react';
+
+interface LayersPanelProps {
+  layers: ArtworkLayer[]; // Bottom to top
+  activeLayerId: string;
+  strokeCounts: Map<string, number>;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onDelete: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<Omit<ArtworkLayer, 'id'>>) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onClose: () => void;
+}
+
+export const LayersPanel = ({
+  layers,
+  activeLayerId,
+  strokeCounts,
+  onSelect,
+  onAdd,
+  onDelete,
+  onUpdate,
+  onMove,
+  onClose
+}: LayersPanelProps) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const activeLayer = layers.find(layer => layer.id === activeLayerId);
+  // Slider previews locally and records one history step when released
+  const [draftOpacity, setDraftOpacity] = useState(activeLayer?.opacity ?? 1);
+
+  useEffect(() => {
+    setDraftOpacity(activeLayer?.opacity ?? 1);
+  }, [activeLayer?.id, activeLayer?.opacity]);
+
+  const startRename = (layer: ArtworkLayer) => {
+    setRenamingId(layer.id);
+    setDraftName(layer.name);
+  };
+
+  const commitRename = () => {
+    const layer = layers.find(entry => entry.id === renamingId);
+    const name = draftName.trim();
+    if (layer && name && name !== layer.name) onUpdate(layer.id, { name });
+    setRenamingId(null);
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // The top layer is listed first, as in other painting applications
+  const listed = layers.map((layer, index) => ({ layer, index })).reverse();
+
+  return (
+    <Card className="w-64 h-full ui-panel rounded-none border-y-0 flex flex-col">
+      <div className="flex items-center justify-between p-3 border-b border-border">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          Layers
+        </h3>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={onAdd} disabled={layers.length >= MAX_LAYERS} title="New layer">
+            <Plus className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onDelete(activeLayerId)}
+            disabled={layers.length <= 1}
+            title="Delete layer"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+        {listed.map(({ layer, index }) => {
+          const isActive = layer.id === activeLayerId;
+          const isDropTarget = dropIndex === index && dragIndex !== null && dragIndex !== index;
+          return (
+            <div
+              key={layer.id}
+              draggable={renamingId !== layer.id}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = 'move';
+                setDragIndex(index);
+              }}
+              onDragOver={(event) => {
+                if (dragIndex === null) return;
+                event.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (dragIndex !== null && dragIndex !== index) onMove(dragIndex, index);
+                endDrag();
+              }}
+              onDragEnd={endDrag}
+              onClick={() => onSelect(layer.id)}
+              className={`rounded px-1 py-1.5 text-sm flex items-center gap-1 cursor-pointer transition-colors ${
+                isActive ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+              } ${isDropTarget ? 'ring-2 ring-ring' : ''} ${dragIndex === index ? 'opacity-50' : ''}`}
+            >
+              <GripVertical className="w-3 h-3 opacity-50 cursor-grab shrink-0" />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 shrink-0"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onUpdate(layer.id, { visible: !layer.visible });
+                }}
+                title={layer.visible ? 'Hide layer' : 'Show layer'}
+              >
+                {layer.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5 opacity-60" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 shrink-0"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onUpdate(layer.id, { locked: !layer.locked });
+                }}
+                title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+              >
+                {layer.locked ? <Lock className="w-3.5 h-3.5" /> : <Unlock className="w-3.5 h-3.5 opacity-60" />}
+              </Button>
+
+              {renamingId === layer.id ? (
+                <Input
+                  autoFocus
+                  value={draftName}
+                  onChange={(event) => setDraftName(event.target.value)}
+                  onBlur={commitRename}
+                  onClick={(event) => event.stopPropagation()}
+                  onKeyDown={(event) => {
+                    event.stopPropagation(); // Keep studio shortcuts out of the text field
+                    if (event.key === 'Enter') commitRename();
+                    if (event.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="h-6 px-1 text-sm text-foreground"
+                />
+              ) : (
+                <span
+                  className={`flex-1 truncate ${layer.visible ? '' : 'opacity-60 italic'}`}
+                  onDoubleClick={() => startRename(layer)}
+                  title="Double-click to rename"
+                >
+                  {layer.name}
+                </span>
+              )}
+              <span className="text-xs font-mono opacity-70 pr-1">{strokeCounts.get(layer.id) ?? 0}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {activeLayer && (
+        <div className="p-3 border-t border-border space-y-3">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Opacity</Label>
+              <Badge variant="secondary">{Math.round(draftOpacity * 100)}%</Badge>
+            </div>
+            <Slider
+              value={[draftOpacity]}
+              onValueChange={(value) => setDraftOpacity(value[0])}
+              onValueCommit={(value) => onUpdate(activeLayer.id, { opacity: value[0] })}
+              min={0}
+              max={1}
+              step={0.01}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Blend Mode</Label>
+            <Select
+              value={activeLayer.blendMode}
+              onValueChange={(value) => onUpdate(activeLayer.id, { blendMode: value as LayerBlendMode })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LAYER_BLEND_MODES.map((mode) => (
+                  <SelectItem key={mode.id} value={mode.id}>{mode.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,44 @@
+export const LEAD_GRADES = ['8B', '6B', '4B', '2B', 'HB', '2H', '4H']; // Indexed by ToolPhysics leadHardness
+export const HB_HARDNESS = 4;
+
+// Tools that draw with graded graphite, each keeping its own grade
+export type GradedLeadTool = 'pencil' | 'mechanicalPencil';
+export type LeadHardnessSettings = Record<GradedLeadTool, number>;
+
+export interface LeadProperties {
+  leadType: string;
+  wearRate: number;
+  darkness: number;
+  softness: number;
+  lineWidth: number;
+  sheen: number; // 0-1, how much the laid graphite shines when light rakes across it
+}
+
+// Softer leads (lower index) carry more graphite: they wear faster and lay down
+// darker, broader and shinier marks
+export const getLeadProperties = (hardness: number): LeadProperties => {
+  const wearRate = Math.max(0.0005, 0.003 - (hardness * 0.0004));
+  const darkness = Math.max(0.2, 1.0 - (hardness * 0.12));
+  const softness = Math.max(0.1, 1.0 - (hardness * 0.15));
+
+  return {
+    leadType: LEAD_GRADES[hardness] || 'HB',
+    wearRate,
+    darkness,
+    softness,
+    lineWidth: 0.5 + (softness * 2),
+    sheen: 0.2 + 0.8 * softness
+  };
+};
+
+const HB = getLeadProperties(HB_HARDNESS);
+
+// A grade's wear, darkness and width against an HB's, for scaling what was tuned on HB lead
+export const getLeadGradeScale = (hardness: number) => {
+  const lead = getLeadProperties(hardness);
+  return {
+    wear: lead.wearRate / HB.wearRate,
+    darkness: lead.darkness / HB.darkness,
+    width: lead.lineWidth / HB.lineWidth
+  };
+};
@@ -16,22 +16,41 @@ export interface ContactPoint {
   pressure: number;
 }
 
+// Serializable per-vertex wear snapshot, used to persist and restore a worn tip.
+// `original` is the sharpened shape the vertex wears from; older snapshots lack it.
+export type LeadWearState = { position: [number, number, number]; wear: number; original?: [number, number, number] }[];
+
+// Shape a sharpener cuts the point to
+export interface LeadTipProfile {
+  taper: number; // Share of the tip's height that is tapered
+  curve: number; // Taper exponent; above 1 hollows the cone into a long needle
+  flatten: number; // Depth across the edge at the point relative to the width; 1 is round
+  edge: number; // Height of the point's edge relative to a cone's; below 1 drops it into a chisel
+}
+
+// The factory point: a straight cone
+const CONE_PROFILE: LeadTipProfile = { taper: 0.7, curve: 1, flatten: 1, edge: 1 };
+
+const WEAR_DEPTH_SCALE = 0.002; // Turns pressure and wear rate into depth ground off per frame
+const WORN_DEPTH = 0.015; // Depth ground off a vertex by the time it counts as fully worn
+const MIN_AXIS_RISE = 0.1; // Below this the lead lies too flat for the point to be what wears
+
 export class LeadTipGeometry {
   vertices: LeadVertex[] = [];
   mesh: THREE.Mesh;
   geometry: THREE.BufferGeometry;
   
-  constructor(radius = 0.02, height = 0.1, segments = 16) {
+  constructor(private radius = 0.02, private height = 0.1, private segments = 16) {
     this.generateInitialGeometry(radius, height, segments);
     this.createMesh();
   }
 
-  private generateInitialGeometry(radius: number, height: number, segments: number) {
+  private generateInitialGeometry(radius: number, height: number, segments: number, profile: LeadTipProfile = CONE_PROFILE) {
     // Create realistic lead tip: tapered point transitioning to cylinder
     this.vertices = [];
     
-    const taperHeight = height * 0.7; // 70% of height is tapered
-    const cylinderHeight = height * 0.3; // 30% is cylindrical
+    const taperHeight = height * profile.taper; // Share of the height that is tapered
+    const cylinderHeight = height - taperHeight; // The rest is cylindrical
     const cylinderRadius = radius * 0.8; // Cylinder is slightly smaller than base
     
     // Tip vertex (sharp point) - pointing DOWN for correct orientation
@@ -45,19 +64,24 @@ export class LeadTipGeometry {
     // Tapered section - multiple rings from tip to cylinder
     const taperRings = 4;
     for (let ring = 1; ring <= taperRings; ring++) {
-      const ringHeight = (taperHeight * ring) / taperRings;
-      const ringRadius = cylinderRadius * (ring / taperRings); // Linear taper to cylinder radius
+      const along = ring / taperRings;
+      const ringRadius = cylinderRadius * Math.pow(along, profile.curve); // Concave for curve > 1
+      // A chisel is flattened across its edge near the point
+      const depth = profile.flatten + (1 - profile.flatten) * along;
       
       for (let i = 0; i < segments; i++) {
         const angle = (i / segments) * Math.PI * 2;
         const x = Math.cos(angle) * ringRadius;
-        const z = Math.sin(angle) * ringRadius;
+        const z = Math.sin(angle) * ringRadius * depth;
+        // ...and its edge, along X, reaches down level with the point
+        const edgeLift = profile.edge + (1 - profile.edge) * Math.abs(Math.sin(angle));
+        const ringHeight = taperHeight * along * (along < 1 ? edgeLift : 1);
         
         this.vertices.push({
           position: new THREE.Vector3(x, ringHeight, z),
           originalPosition: new THREE.Vector3(x, ringHeight, z),
           wear: 0,
-          hardness: 0.7 + (ring / taperRings) * 0.2 // Harder as we go up
+          hardness: 0.7 + along * 0.2 // Harder as we go up
         });
       }
     }
@@ -95,14 +119,29 @@ export class LeadTipGeometry {
       positions.push(vertex.position.x, vertex.position.y, vertex.position.z);
     });
 
-    // Create faces (simplified triangulation)
-    const segments = Math.floor((this.vertices.length - 1) / 4); // Approximate
+    // Create faces: a fan from the tip to the first ring, a band of quads between
+    // each pair of rings up the taper and cylinder, and a cap over the top ring
+    const segments = this.segments;
+    const rings = (this.vertices.length - 1) / segments;
+    const ringVertex = (ring: number, i: number) => 1 + ring * segments + (i % segments);
+
     for (let i = 0; i < segments; i++) {
-      const base1 = 1 + i;
-      const base2 = 1 + ((i + 1) % segments);
-      
-      // Triangle from tip to base edge
-      indices.push(0, base1, base2);
+      indices.push(0, ringVertex(0, i), ringVertex(0, i + 1));
+    }
+
+    for (let ring = 0; ring < rings - 1; ring++) {
+      for (let i = 0; i < segments; i++) {
+        const lower = ringVertex(ring, i);
+        const lowerNext = ringVertex(ring, i + 1);
+        const upper = ringVertex(ring + 1, i);
+        const upperNext = ringVertex(ring + 1, i + 1);
+        indices.push(lower, upper, lowerNext);
+        indices.push(lowerNext, upper, upperNext);
+      }
+    }
+
+    for (let i = 1; i < segments - 1; i++) {
+      indices.push(ringVertex(rings - 1, 0), ringVertex(rings - 1, i + 1), ringVertex(rings - 1, i));
     }
 
     this.geometry = new THREE.BufferGeometry();
@@ -162,53 +201,33 @@ export class LeadTipGeometry {
     return contacts;
   }
 
-  // Apply wear based on contact with enhanced realism
+  // Grind the lead down where it meets the paper. The plane through the lowest point
+  // is raised by this frame's wear depth and everything below it is cut away along the
+  // lead's axis, so worn vertices settle onto one flat facet at the drawing angle.
   applyWear(contacts: ContactPoint[], toolWorldMatrix: THREE.Matrix4, wearRate: number = 0.001) {
-    const inverseMatrix = toolWorldMatrix.clone().invert();
-    
-    contacts.forEach(contact => {
-      // Find all vertices within wear radius for more realistic wear
-      const wearRadius = 0.008;
-      const affectedVertices: { vertex: LeadVertex; distance: number; influence: number }[] = [];
-      
-      this.vertices.forEach(vertex => {
-        const worldPos = vertex.position.clone().applyMatrix4(toolWorldMatrix);
-        const distance = worldPos.distanceTo(contact.position);
-        if (distance < wearRadius) {
-          const influence = 1 - (distance / wearRadius); // Falloff
-          affectedVertices.push({ vertex, distance, influence });
-        }
-      });
+    if (contacts.length === 0) return;
 
-      // Apply wear to all affected vertices
-      affectedVertices.forEach(({ vertex, influence }) => {
-        // Enhanced wear calculation with material properties
-        const pressureFactor = Math.pow(contact.pressure, 1.2); // Non-linear pressure response
-        const hardnessFactor = 1 / Math.pow(vertex.hardness, 0.8);
-        const wearAmount = pressureFactor * wearRate * hardnessFactor * influence * 0.1;
-        
-        vertex.wear = Math.min(1, vertex.wear + wearAmount);
-        
-        // Realistic wear deformation - lead wears away creating flat spots
-        const wearDirection = contact.normal.clone().multiplyScalar(-1); // Wear in direction of contact
-        const lateralWear = new THREE.Vector3(
-          (Math.random() - 0.5) * 0.001 * vertex.wear,
-          0,
-          (Math.random() - 0.5) * 0.001 * vertex.wear
-        );
-        
-        const totalWearOffset = wearDirection
-          .multiplyScalar(vertex.wear * 0.015)
-          .add(lateralWear);
-          
-        vertex.position.copy(vertex.originalPosition).add(totalWearOffset);
-        
-        // Create flat spots where heavy wear occurs
-        if (vertex.wear > 0.3) {
-          const flatteningFactor = (vertex.wear - 0.3) * 0.02;
-          vertex.position.y += flatteningFactor;
-        }
-      });
+    const worldPositions = this.vertices.map(vertex => vertex.position.clone().applyMatrix4(toolWorldMatrix));
+    let lowest = 0;
+    worldPositions.forEach((worldPos, i) => {
+      if (worldPos.y < worldPositions[lowest].y) lowest = i;
+    });
+
+    // World height gained per unit along the lead's axis
+    const origin = new THREE.Vector3().applyMatrix4(toolWorldMatrix);
+    const rise = new THREE.Vector3(0, 1, 0).applyMatrix4(toolWorldMatrix).y - origin.y;
+    if (rise < MIN_AXIS_RISE) return;
+
+    // Harder lead and lighter pressure grind off less
+    const pressure = Math.max(...contacts.map(contact => contact.pressure));
+    const hardnessFactor = 1 / Math.pow(this.vertices[lowest].hardness, 0.8);
+    const depth = Math.pow(pressure, 1.2) * wearRate * hardnessFactor * WEAR_DEPTH_SCALE;
+    const clipY = worldPositions[lowest].y + depth;
+
+    this.vertices.forEach((vertex, i) => {
+      if (worldPositions[i].y >= clipY) return;
+      vertex.position.y = Math.min(this.height, vertex.position.y + (clipY - worldPositions[i].y) / rise);
+      vertex.wear = Math.min(1, vertex.position.distanceTo(vertex.originalPosition) / WORN_DEPTH);
     });
 
     // Update geometry after wear
@@ -267,6 +286,44 @@ export class LeadTipGeometry {
     return { center, area: totalArea, shape, orientation };
   }
 
+  getWearState(): LeadWearState {
+    return this.vertices.map(v => ({
+      position: [v.position.x, v.position.y, v.position.z],
+      wear: v.wear,
+      original: [v.originalPosition.x, v.originalPosition.y, v.originalPosition.z]
+    }));
+  }
+
+  // Restore a previously captured wear snapshot (ignored if the topology differs).
+  // Snapshots from before sharpening was recorded were all worn from the factory cone.
+  restoreWear(state: LeadWearState) {
+    if (state.length !== this.vertices.length) return;
+    if (state.some(saved => !saved.original)) this.generateInitialGeometry(this.radius, this.height, this.segments);
+
+    state.forEach((saved, i) => {
+      this.vertices[i].position.set(saved.position[0], saved.position[1], saved.position[2]);
+      if (saved.original) this.vertices[i].originalPosition.set(saved.original[0], saved.original[1], saved.original[2]);
+      this.vertices[i].wear = saved.wear;
+    });
+
+    this.updateGeometry();
+  }
+
+  // Cut a fresh point to `profile`, discarding all wear
+  sharpen(profile: LeadTipProfile) {
+    this.generateInitialGeometry(this.radius, this.height, this.segments, profile);
+    this.updateGeometry();
+  }
+
+  resetWear() {
+    this.vertices.forEach(vertex => {
+      vertex.position.copy(vertex.originalPosition);
+      vertex.wear = 0;
+    });
+
+    this.updateGeometry();
+  }
+
   dispose() {
     this.geometry?.dispose();
   }
@@ -281,17 +338,19 @@ export interface LeadTipProps {
   toolWorldMatrix?: THREE.Matrix4; // Add tool's world transformation
   onContact: (contacts: ContactPoint[], shape: any) => void;
   onWearUpdate?: (avgWear: number, vertices: { position: THREE.Vector3; wear: number }[]) => void;
+  geometry?: LeadTipGeometry; // Shared geometry so wear survives tool switches
+  wearRate?: number; // Wear per unit of pressure; softer grades wear faster
 }
 
-export const LeadTip = ({ position, rotation, pressure, isDrawing, surfaceY, toolWorldMatrix, onContact, onWearUpdate, roll = 0 }: LeadTipProps & { roll?: number }) => {
+export const LeadTip = ({ position, rotation, pressure, isDrawing, surfaceY, toolWorldMatrix, onContact, onWearUpdate, geometry, wearRate = 0.002, roll = 0 }: LeadTipProps & { roll?: number }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const leadGeometryRef = useRef<LeadTipGeometry>();
   
   // Initialize lead geometry
   const leadGeometry = useMemo(() => {
-    leadGeometryRef.current = new LeadTipGeometry();
+    leadGeometryRef.current = geometry ?? new LeadTipGeometry();
     return leadGeometryRef.current;
-  }, []);
+  }, [geometry]);
 
   useFrame(() => {
     if (!meshRef.current) return;
@@ -308,7 +367,7 @@ export const LeadTip = ({ position, rotation, pressure, isDrawing, surfaceY, too
     if (contacts.length > 0) {
       // Only apply wear when actually drawing
       if (isDrawing) {
-        leadGeometry.applyWear(contacts, worldMatrix, pressure * 0.002);
+        leadGeometry.applyWear(contacts, worldMatrix, pressure * wearRate);
       }
       
       // Get contact shape for drawing
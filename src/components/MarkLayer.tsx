@@ -0,0 +1,1007 @@
+import * as THREE from 'three';
+import { StrokeSegment, StrokePoint, STROKE_WIDTH_TO_WORLD } from './DrawingStrokeSystem';
+import { SurfaceTopology } from './SurfaceTopology';
+import { SURFACE_WIDTH, SURFACE_HEIGHT } from './ArtworkExport';
+import { ArtworkLayer, LayerBlendMode } from './ArtworkLayers';
+import { PaintMedium } from './PaintMedia';
+import { WetLayer, WET_GRID_COLUMNS, WET_GRID_ROWS } from './WetLayer';
+import { PigmentGrid } from './PigmentGrid';
+import { getSampleStudioTime } from './StudioClock';
+import { HB_HARDNESS, getLeadProperties } from './LeadGrade';
+
+const MAX_LAYER_WIDTH = 4096; // Texels across the 20-unit surface (~200 per unit)
+const DAB_SPACING = 0.25; // Distance between stamps as a fraction of the dab diameter
+const MIN_DAB_SPACING = 0.0005;
+const MAX_DABS_PER_DRAW = 65536;
+const WET_GLOSS = 0.85; // How much smoother than the bare surface freshly laid paint looks
+const BRISTLE_TRACE_RADIUS = 0.004; // Surface units a single hair's trace covers when pressed flat
+const SMUDGE_COLOR = new THREE.Color('#2F2F2F'); // Graphite, as dry media lay it
+const GRAPHITE_SCALE = 0.5; // Graphite in the tooth is tracked at half the pigment buffer's resolution
+const GRAPHITE_LOAD = 0.12; // Graphite one full-coverage pass of a medium-soft lead packs into the tooth
+const GRAPHITE_BURNISH = 0.08; // Tooth one full-pressure pass of the hardest lead presses flat
+const SMUDGE_LOAD = 0.04; // Graphite an eraser or stump smears back down packs in
+const GRAPHITE_GLOSS = 0.6; // How much smoother than the bare surface a full graphite sheen looks
+const GRAPHITE_METALNESS = 0.7; // How metallic it looks
+const TAPER_WIDTHS = 3; // Stroke widths a tapered end narrows over
+const MIN_TAPER_SCALE = 0.3; // Narrowest a tapered end gets; narrower dabs would part at DAB_SPACING
+
+interface DepositionProfile {
+  grain: number; // How much the surface relief modulates the deposit (0 = ignores grain, below 0 favours the valleys)
+  tooth: number; // How much the deposit is limited to relief the tip can reach at its pressure
+}
+
+// Dry media abrade on the tooth: light pressure only catches the peaks, heavy
+// pressure pushes pigment down into the valleys. Wet and ink tools flow over it.
+const DEPOSITION_PROFILES: Record<string, DepositionProfile> = {
+  pencil: { grain: 0.55, tooth: 0.9 },
+  mechanicalPencil: { grain: 0.45, tooth: 0.8 },
+  crayon: { grain: 0.75, tooth: 1 },
+  pen: { grain: 0.1, tooth: 0 },
+  brush: { grain: 0.25, tooth: 0 },
+  eraser: { grain: 0.3, tooth: 0 },
+  // Pushes graphite into the tooth as far as it is pressed
+  blendingStump: { grain: 0.6, tooth: 0.8 }
+};
+const DEFAULT_DEPOSITION: DepositionProfile = { grain: 0.3, tooth: 0 };
+
+// Brush strokes deposit according to their medium: oil sits on the weave, acrylic
+// levels into a flat film and watercolor pigment granulates into the hollows
+const MEDIUM_PROFILES: Record<PaintMedium, DepositionProfile> = {
+  oil: { grain: 0.3, tooth: 0 },
+  acrylic: { grain: 0.15, tooth: 0 },
+  watercolor: { grain: -0.6, tooth: 0 }
+};
+
+const getDepositionProfile = (segment: StrokeSegment) =>
+  segment.paint ? MEDIUM_PROFILES[segment.paint.medium] : DEPOSITION_PROFILES[segment.tool] ?? DEFAULT_DEPOSITION;
+
+// Graphite a dab packs into the paper tooth, how much it burnishes the tooth flat,
+// and how much the grade it came from shines
+interface GraphiteDeposit {
+  load: number;
+  burnish: number;
+  sheen: number;
+}
+
+const NO_GRAPHITE: GraphiteDeposit = { load: 0, burnish: 0, sheen: 0 };
+// Smeared graphite has lost track of its grade; it shines like HB
+const SMUDGE_GRAPHITE: GraphiteDeposit = { load: SMUDGE_LOAD, burnish: 0, sheen: getLeadProperties(HB_HARDNESS).sheen };
+
+// Soft grades crumble more, shinier graphite into the tooth; hard ones press it flat until it takes no more
+const getGraphiteDeposit = (segment: StrokeSegment): GraphiteDeposit => {
+  if (segment.tool !== 'pencil' && segment.tool !== 'mechanicalPencil') return NO_GRAPHITE;
+  const { softness, sheen } = getLeadProperties(segment.leadHardness ?? HB_HARDNESS);
+  return { load: GRAPHITE_LOAD * (0.5 + softness), burnish: GRAPHITE_BURNISH * (1 - softness), sheen };
+};
+
+export type StrokeCap = 'round' | 'flat' | 'taper';
+
+// How each tool's marks end: dabs are round already, so only flat and tapered ends need shaping
+const STROKE_CAPS: Record<string, StrokeCap> = {
+  pencil: 'taper',
+  mechanicalPencil: 'taper',
+  brush: 'taper',
+  pen: 'round',
+  crayon: 'flat',
+  eraser: 'round'
+};
+
+// Texture a mark picks up on top of the paper grain: graphite breaks up in streaks
+// along the stroke, ink lays almost solid and erasers lift evenly
+type StrokeFinish = 'solid' | 'graphite' | 'ink';
+
+const STROKE_FINISHES: Record<string, StrokeFinish> = {
+  pencil: 'graphite',
+  mechanicalPencil: 'graphite',
+  crayon: 'graphite',
+  pen: 'ink',
+  brush: 'ink'
+};
+
+// Matches the finish codes the stamp shader branches on
+const FINISH_CODES: Record<StrokeFinish, number> = { solid: 0, graphite: 1, ink: 2 };
+
+const getStrokeFinish = (segment: StrokeSegment) => FINISH_CODES[STROKE_FINISHES[segment.tool] ?? 'solid'];
+
+// Minor/major axis ratio of a dab for each contact footprint
+const CONTACT_ASPECT: Record<StrokePoint['contact']['shape'], number> = {
+  point: 1,
+  oval: 0.7,
+  line: 0.4
+};
+
+export interface Dab {
+  x: number;
+  z: number;
+  radius: number;
+  aspect: number;
+  rotation: number;
+  alpha: number;
+  pressure: number;
+  load: number;
+  time: number; // Studio clock seconds
+  distance: number; // Along the stroke from its first sample
+  heading: number; // Radians in the surface plane; the direction of travel
+  clip?: [number, number, number]; // Flat end: only (x, z) with x * clip[0] + z * clip[1] >= clip[2] is marked
+  track?: number; // Hair of a bristle brush that laid the dab
+}
+
+const getHeading = (from: StrokePoint, to: StrokePoint) =>
+  Math.atan2(to.position.z - from.position.z, to.position.x - from.position.x);
+
+// Dab at fraction `t` of the way from sample `a` to sample `b`, `start` along the stroke at `a`.
+// A dab on a single sample heads towards the next one, if the stroke has one yet.
+const interpolateDab = (segment: StrokeSegment, a: StrokePoint, b: StrokePoint, t: number, start: number): Dab => {
+  const width = THREE.MathUtils.lerp(a.width, b.width, t) * STROKE_WIDTH_TO_WORLD;
+  const opacity = THREE.MathUtils.lerp(a.opacity, b.opacity, t);
+  const contact = t < 0.5 ? a.contact : b.contact;
+  const next = a === b ? segment.points[segment.points.indexOf(a) + 1] ?? b : b;
+  return {
+    x: THREE.MathUtils.lerp(a.position.x, b.position.x, t),
+    z: THREE.MathUtils.lerp(a.position.z, b.position.z, t),
+    radius: width / 2,
+    aspect: CONTACT_ASPECT[contact.shape] ?? 1,
+    rotation: contact.orientation,
+    // Roughly 1 / DAB_SPACING dabs overlap any texel; together they reach the sample's opacity
+    alpha: 1 - Math.pow(1 - Math.min(0.999, opacity), DAB_SPACING),
+    pressure: THREE.MathUtils.lerp(a.pressure, b.pressure, t),
+    load: THREE.MathUtils.lerp(a.load, b.load, t),
+    time: getSampleStudioTime(segment, THREE.MathUtils.lerp(a.timestamp, b.timestamp, t)),
+    distance: start + a.position.distanceTo(b.position) * t,
+    heading: getHeading(a, next)
+  };
+};
+
+// Walk a stroke from `fromIndex` laying dabs at even spacing. `carry` is the distance
+// already travelled since the last dab, so incremental calls continue the same rhythm;
+// `travelled` is the stroke's length up to sample `fromIndex - 1`.
+export const createDabs = (segment: StrokeSegment, fromIndex: number, carry: number, travelled = 0) => {
+  const points = segment.points;
+  const dabs: Dab[] = [];
+
+  if (fromIndex === 0 && points.length > 0) {
+    dabs.push(interpolateDab(segment, points[0], points[0], 0, 0));
+    carry = 0;
+  }
+
+  for (let i = Math.max(1, fromIndex); i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const length = a.position.distanceTo(b.position);
+    const start = travelled;
+    travelled += length;
+    let along = 0;
+
+    for (;;) {
+      const t = length > 0 ? along / length : 0;
+      const diameter = THREE.MathUtils.lerp(a.width, b.width, t) * STROKE_WIDTH_TO_WORLD;
+      const next = along + Math.max(MIN_DAB_SPACING, diameter * DAB_SPACING) - carry;
+      if (next > length) {
+        carry += length - along;
+        break;
+      }
+      along = next;
+      carry = 0;
+      dabs.push(interpolateDab(segment, a, b, along / length, start));
+    }
+  }
+
+  return { dabs, carry, travelled };
+};
+
+// Shape the dabs near the ends of a stroke `length` long to its cap. The far end of a
+// stroke that is still open may move on, so dabs its cap could reach come back as
+// `pending`, to be capped once the stroke grows past them or is finished.
+const capDabs = (segment: StrokeSegment, dabs: Dab[], length: number) => {
+  const cap = STROKE_CAPS[segment.tool] ?? 'round';
+  const points = segment.points;
+  const ready: Dab[] = [];
+
+  let i = 0;
+  for (; i < dabs.length; i++) {
+    const dab = dabs[i];
+    const reach = cap === 'taper' ? dab.radius * 2 * TAPER_WIDTHS : cap === 'flat' ? dab.radius : 0;
+    const fromEnd = length - dab.distance;
+    if (segment.open && fromEnd < reach) break;
+
+    if (cap === 'taper') {
+      const t = reach > 0 ? Math.min(1, Math.min(dab.distance, fromEnd) / reach) : 1;
+      ready.push({ ...dab, radius: dab.radius * (MIN_TAPER_SCALE + (1 - MIN_TAPER_SCALE) * t * t * (3 - 2 * t)) });
+    } else if (cap === 'flat' && length > 0 && Math.min(dab.distance, fromEnd) < reach) {
+      // Cut square across the stroke at whichever end the dab overhangs
+      const atStart = dab.distance <= fromEnd;
+      const end = atStart ? points[0] : points[points.length - 1];
+      const neighbour = atStart
+        ? points.find(point => point.position.distanceTo(end.position) > 0) ?? end
+        : [...points].reverse().find(point => point.position.distanceTo(end.position) > 0) ?? end;
+      const heading = getHeading(end, neighbour); // Into the stroke
+      const nx = Math.cos(heading);
+      const nz = Math.sin(heading);
+      ready.push({ ...dab, clip: [nx, nz, end.position.x * nx + end.position.z * nz] });
+    } else {
+      ready.push(dab);
+    }
+  }
+
+  return { ready, pending: dabs.slice(i) };
+};
+
+// Each hair of a bristle brush leaves its own trace along the path of its contact
+// point, broken wherever it lifts off. `carries` holds every hair's distance since
+// its last dab, the way `carry` does for createDabs.
+export const createBristleDabs = (segment: StrokeSegment, fromIndex: number, carries: number[]) => {
+  const points = segment.points;
+  const dabs: Dab[] = [];
+  const hairs = (points[0]?.bristles?.length ?? 0) / 3;
+  const nextCarries = Array.from({ length: hairs }, (_, hair) => carries[hair] ?? 0);
+
+  const weightOf = (point: StrokePoint, hair: number) => point.bristles?.[hair * 3 + 2] ?? 0;
+  const xOf = (point: StrokePoint, hair: number) => point.position.x + (point.bristles?.[hair * 3] ?? 0);
+  const zOf = (point: StrokePoint, hair: number) => point.position.z + (point.bristles?.[hair * 3 + 1] ?? 0);
+  // A hair pressed flat spreads its paint wider than one just brushing the surface
+  const radiusAt = (weight: number) => BRISTLE_TRACE_RADIUS * (0.6 + 0.8 * weight);
+
+  const emit = (a: StrokePoint, b: StrokePoint, t: number, hair: number) => {
+    const weight = THREE.MathUtils.lerp(weightOf(a, hair), weightOf(b, hair), t);
+    dabs.push({
+      ...interpolateDab(segment, a, b, t, 0),
+      x: THREE.MathUtils.lerp(xOf(a, hair), xOf(b, hair), t),
+      z: THREE.MathUtils.lerp(zOf(a, hair), zOf(b, hair), t),
+      radius: radiusAt(weight),
+      aspect: 1,
+      rotation: 0,
+      track: hair
+    });
+  };
+
+  for (let hair = 0; hair < hairs; hair++) {
+    let carry = nextCarries[hair];
+    if (fromIndex === 0 && points.length > 0 && weightOf(points[0], hair) > 0) {
+      emit(points[0], points[0], 0, hair);
+      carry = 0;
+    }
+
+    for (let i = Math.max(1, fromIndex); i < points.length; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      if (weightOf(b, hair) <= 0) continue; // Lifted: the trace breaks here
+      if (weightOf(a, hair) <= 0) {
+        // Touching down starts a new trace
+        emit(b, b, 0, hair);
+        carry = 0;
+        continue;
+      }
+
+      const length = Math.hypot(xOf(b, hair) - xOf(a, hair), zOf(b, hair) - zOf(a, hair));
+      let along = 0;
+      for (;;) {
+        const t = length > 0 ? along / length : 0;
+        const diameter = 2 * radiusAt(THREE.MathUtils.lerp(weightOf(a, hair), weightOf(b, hair), t));
+        const next = along + Math.max(MIN_DAB_SPACING, diameter * DAB_SPACING) - carry;
+        if (next > length) {
+          carry += length - along;
+          break;
+        }
+        along = next;
+        carry = 0;
+        emit(a, b, along / length, hair);
+      }
+    }
+    nextCarries[hair] = carry;
+  }
+
+  return { dabs, carries: nextCarries };
+};
+
+const StampShader = {
+  vertexShader: /* glsl */`
+    precision highp float;
+    attribute vec3 position; // Quad corner in -1..1
+    attribute vec2 aCenter; // World XZ
+    attribute vec3 aShape; // Radius, aspect, rotation
+    attribute vec4 aColor; // Linear RGB + dab alpha
+    attribute vec4 aDeposit; // Grain influence, tooth influence, pressure, paint load
+    attribute vec3 aGraphite; // Graphite load, burnish, the grade's sheen
+    attribute vec3 aStroke; // Heading, distance along the stroke, finish code
+    attribute vec3 aClip; // Flat end's half-plane: normal XZ, offset; a zero normal keeps everything
+    uniform vec2 uSurfaceSize;
+    varying vec2 vLocal;
+    varying vec2 vWorld;
+    varying vec2 vSurfaceUv;
+    varying vec4 vColor;
+    varying vec4 vDeposit;
+    varying vec3 vGraphite;
+    varying vec3 vStroke; // Across and along the stroke from the dab's center, finish code
+    varying float vClip;
+
+    void main() {
+      float c = cos(aShape.z);
+      float s = sin(aShape.z);
+      vec2 offset = vec2(position.x * aShape.x, position.y * aShape.x * aShape.y);
+      offset = vec2(offset.x * c - offset.y * s, offset.x * s + offset.y * c);
+      vec2 world = aCenter + offset;
+
+      // Same mapping as the surface plane's UVs (rotated -90° about X)
+      vec2 uv = vec2(world.x / uSurfaceSize.x + 0.5, 0.5 - world.y / uSurfaceSize.y);
+      vLocal = position.xy;
+      vWorld = world;
+      vSurfaceUv = uv;
+      vColor = aColor;
+      vDeposit = aDeposit;
+      vGraphite = aGraphite;
+      vec2 heading = vec2(cos(aStroke.x), sin(aStroke.x));
+      vStroke = vec3(dot(offset, vec2(-heading.y, heading.x)), aStroke.y + dot(offset, heading), aStroke.z);
+      vClip = length(aClip.xy) > 0.0 ? dot(world, aClip.xy) - aClip.z : 1.0;
+      gl_Position = vec4(uv * 2.0 - 1.0, 0.0, 1.0);
+    }`,
+  fragmentShader: /* glsl */`
+    precision highp float;
+    uniform sampler2D uGrainMap;
+    uniform vec2 uGrainRepeat;
+    uniform float uGrainScale;
+    uniform float uToothDepth;
+    uniform sampler2D uGraphite; // Graphite already in the tooth: load, burnish
+    uniform float uAccumulate; // 1 when stamping graphite load rather than pigment
+    varying vec2 vLocal;
+    varying vec2 vWorld;
+    varying vec2 vSurfaceUv;
+    varying vec4 vColor;
+    varying vec4 vDeposit;
+    varying vec3 vGraphite;
+    varying vec3 vStroke;
+    varying float vClip;
+
+    float hash(vec2 p) {
+      return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+    }
+
+    // Smooth value noise for fibres finer than the topology texture can hold
+    float fibreNoise(vec2 p) {
+      vec2 i = floor(p);
+      vec2 f = fract(p);
+      f = f * f * (3.0 - 2.0 * f);
+      return mix(
+        mix(hash(i), hash(i + vec2(1.0, 0.0)), f.x),
+        mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), f.x),
+        f.y
+      );
+    }
+
+    // Same octaves as CoordinateSmoothingEngine.getTextureNoise, in world XZ
+    float textureNoise(vec2 p) {
+      float noise = sin(p.x * 100.0) * cos(p.y * 100.0) * 0.4;
+      noise += sin(p.x * 20.0) * cos(p.y * 20.0) * 0.3;
+      noise += sin(p.x * 5.0) * cos(p.y * 5.0) * 0.3;
+      return noise * 0.5 + 0.5;
+    }
+
+    void main() {
+      float r = length(vLocal);
+      if (r > 1.0 || vClip < 0.0) discard;
+      float falloff = 1.0 - smoothstep(0.6, 1.0, r);
+
+      // Height field under the dab in 0-1: the weave/tooth of the topology map,
+      // the engine's grain octaves and fine fibres
+      float weave = texture2D(uGrainMap, vSurfaceUv * uGrainRepeat).r / uGrainScale;
+      float relief = weave * 0.45 + textureNoise(vWorld) * 0.25 + fibreNoise(vWorld * 90.0) * 0.3;
+
+      // Peaks take more pigment than valleys (or fewer, for a granulating wash)
+      float grain = mix(1.0, 0.5 + relief, vDeposit.x);
+
+      // Pressure sets how far down the tooth the tip reaches
+      float reach = pow(clamp(vDeposit.z, 0.0, 1.0), 0.7);
+      float caught = smoothstep(0.88 - reach, 1.12 - reach, relief);
+      float tooth = vDeposit.y * uToothDepth;
+
+      // A brush running dry skips across the surface, leaving paint only on the high points
+      float dryness = 1.0 - smoothstep(0.0, 0.4, vDeposit.w);
+      float dryBrush = dryness > 0.0 ? smoothstep(dryness - 0.1, dryness + 0.1, relief) : 1.0;
+
+      // Graphite only fits in the tooth the displacement leaves room for, and burnished
+      // tooth holds less; once it is filled the lead slides over without depositing
+      vec2 inTooth = texture2D(uGraphite, vSurfaceUv).rg;
+      float capacity = mix(0.25, 1.0, uToothDepth) * (1.25 - weave * 0.5) * (1.0 - 0.8 * clamp(inTooth.g, 0.0, 1.0));
+      float saturation = vGraphite.x > 0.0 ? 1.0 - smoothstep(0.6, 1.0, inTooth.r / max(0.01, capacity)) : 1.0;
+
+      // Graphite breaks up in streaks that wander along the stroke; ink lays almost solid
+      float speckle = hash(floor(vWorld * 200.0)) - 0.5;
+      float finish = 1.0;
+      if (vStroke.z > 1.5) finish = 1.0 + speckle * 0.06;
+      else if (vStroke.z > 0.5) finish = 1.0 + sin(vStroke.x * 500.0 + sin(vStroke.y * 7.0) * 2.0) * 0.15 + speckle * 0.4;
+
+      float coverage = clamp(vColor.a * falloff * mix(grain, caught, tooth) * dryBrush * saturation * finish, 0.0, 1.0);
+
+      if (uAccumulate > 0.5) {
+        gl_FragColor = vec4(vGraphite.x * coverage, vGraphite.y * coverage * vDeposit.z, vGraphite.x * vGraphite.z * coverage, 0.0);
+        return;
+      }
+      gl_FragColor = vec4(vColor.rgb * coverage, coverage); // Premultiplied
+    }`
+};
+
+const CompositeShader = {
+  vertexShader: /* glsl */`
+    precision highp float;
+    attribute vec3 position;
+    attribute vec2 uv;
+    varying vec2 vUv;
+
+    void main() {
+      vUv = uv;
+      gl_Position = vec4(position.xy, 0.0, 1.0);
+    }`,
+  fragmentShader: /* glsl */`
+    precision highp float;
+    uniform sampler2D tPigment;
+    uniform float uOpacity;
+    varying vec2 vUv;
+
+    void main() {
+      gl_FragColor = texture2D(tPigment, vUv) * uOpacity; // Premultiplied, faded by the layer opacity
+    }`
+};
+
+// Surface finish from the wet film and the graphite in the tooth. R: wetness (the
+// clearcoat), G: roughness factor, B: metalness, so heavy graphite picks up a
+// view-dependent sheen under the scene's light.
+const FinishShader = {
+  vertexShader: CompositeShader.vertexShader,
+  fragmentShader: /* glsl */`
+    precision highp float;
+    uniform sampler2D tWetness;
+    uniform sampler2D tGraphite;
+    uniform float uWetGloss;
+    uniform float uGraphiteGloss;
+    uniform float uGraphiteMetalness;
+    varying vec2 vUv;
+
+    void main() {
+      float wetness = texture2D(tWetness, vUv).r;
+      vec3 graphite = texture2D(tGraphite, vUv).rgb;
+      // Layered and burnished graphite turns smooth and shiny, the more so the softer its grade
+      float grade = graphite.r > 0.0 ? clamp(graphite.b / graphite.r, 0.0, 1.0) : 0.0;
+      float sheen = smoothstep(0.25, 0.9, graphite.r + 0.5 * graphite.g) * grade;
+      float roughness = min(1.0 - uWetGloss * wetness, 1.0 - uGraphiteGloss * sheen);
+      gl_FragColor = vec4(wetness, roughness, sheen * uGraphiteMetalness, 1.0);
+    }`
+};
+
+// Fixed-function blends for premultiplied layers: normal is "over";
+// multiply scales what is underneath by (1 - a + rgb), i.e. by the layer's color
+const COMPOSITE_BLENDS: Record<LayerBlendMode, { blendSrc: THREE.BlendingSrcFactor; blendDst: THREE.BlendingDstFactor }> = {
+  normal: { blendSrc: THREE.OneFactor, blendDst: THREE.OneMinusSrcAlphaFactor },
+  multiply: { blendSrc: THREE.DstColorFactor, blendDst: THREE.OneMinusSrcAlphaFactor }
+};
+
+interface StampedSegment {
+  id: string;
+  count: number;
+  carry: number;
+  travelled: number; // Stroke length up to its last stamped sample
+  open: boolean; // Stamped while still growing
+  pending: Dab[]; // Dabs the open end's cap could still reach
+  bristleCarries?: number[]; // Per hair, for strokes laid by a bristle brush
+}
+
+// Shared GL state every pigment buffer stamps with
+interface StampContext {
+  renderer: THREE.WebGLRenderer;
+  depositMaterial: THREE.RawShaderMaterial;
+  eraseMaterial: THREE.RawShaderMaterial;
+  graphiteMaterial: THREE.RawShaderMaterial;
+  noGraphite: THREE.DataTexture; // Bound to uGraphite while a layer's graphite buffer is the target
+  quad: THREE.PlaneGeometry;
+  scene: THREE.Scene;
+  camera: THREE.OrthographicCamera;
+}
+
+const withTarget = (renderer: THREE.WebGLRenderer, target: THREE.WebGLRenderTarget, draw: () => void) => {
+  const previousTarget = renderer.getRenderTarget();
+  const previousAutoClear = renderer.autoClear;
+  const previousClearColor = renderer.getClearColor(new THREE.Color());
+  const previousClearAlpha = renderer.getClearAlpha();
+
+  renderer.autoClear = false;
+  renderer.setRenderTarget(target);
+  try {
+    draw();
+  } finally {
+    renderer.setRenderTarget(previousTarget);
+    renderer.autoClear = previousAutoClear;
+    renderer.setClearColor(previousClearColor, previousClearAlpha);
+  }
+};
+
+const renderMesh = (context: StampContext, target: THREE.WebGLRenderTarget, mesh: THREE.Mesh) => {
+  context.scene.add(mesh);
+  withTarget(context.renderer, target, () => context.renderer.render(context.scene, context.camera));
+  context.scene.remove(mesh);
+};
+
+// sRGB storage keeps 8 bits per channel from banding in the darks; blending stays linear
+const createLayerTarget = (width: number, height: number) =>
+  new THREE.WebGLRenderTarget(width, height, { colorSpace: THREE.SRGBColorSpace, depthBuffer: false });
+
+// Graphite load needs finer steps than 8 bits give; it is linear data, not color
+const createGraphiteTarget = (width: number, height: number) =>
+  new THREE.WebGLRenderTarget(Math.round(width * GRAPHITE_SCALE), Math.round(height * GRAPHITE_SCALE), {
+    type: THREE.HalfFloatType,
+    depthBuffer: false
+  });
+
+const clearTarget = (renderer: THREE.WebGLRenderer, target: THREE.WebGLRenderTarget) => {
+  withTarget(renderer, target, () => {
+    renderer.setClearColor(0x000000, 0);
+    renderer.clear(true, false, false);
+  });
+};
+
+// Premultiplied pigment of one artwork layer. Tools stamp dabs into it and erasers
+// remove from it, so an eraser only ever affects the layer it was used on.
+class MarkLayer {
+  readonly target: THREE.WebGLRenderTarget;
+  private stamped: StampedSegment[] = [];
+  private wet: WetLayer | null = null; // Allocated once the layer gets wet paint
+  private pigment: PigmentGrid | null = null; // Allocated once the layer gets dry media or ink
+  private graphite: THREE.WebGLRenderTarget | null = null; // Allocated once the layer gets graphite
+
+  constructor(private context: StampContext, private width: number, private height: number) {
+    this.target = createLayerTarget(width, height);
+    this.clear();
+  }
+
+  // Graphite packed into the tooth under this layer (R), how burnished it is (G) and
+  // that graphite weighted by its grade's sheen (B)
+  get graphiteTexture() {
+    return this.graphite?.texture ?? null;
+  }
+
+  clear() {
+    this.stamped = [];
+    this.wet?.clear();
+    this.pigment?.clear();
+    clearTarget(this.context.renderer, this.target);
+    if (this.graphite) clearTarget(this.context.renderer, this.graphite);
+  }
+
+  // Bring the buffer in line with `segments`. Strokes that only grew since the last
+  // call (live drawing, replay) are stamped incrementally; anything else — undo,
+  // loading, scrubbing back — repaints from scratch.
+  sync(segments: StrokeSegment[], absorption: number) {
+    if (!this.canContinue(segments)) this.clear();
+
+    const work: { index: number; segment: StrokeSegment; previous?: StampedSegment }[] = [];
+    segments.forEach((segment, index) => {
+      const previous = this.stamped[index];
+      if (previous && previous.count === segment.points.length && previous.open === !!segment.open) return;
+      work.push({ index, segment, previous });
+    });
+    if (work.length === 0) return;
+
+    let batch: Dab[] = [];
+    let batchProfiles: DepositionProfile[] = [];
+    let batchColors: THREE.Color[] = [];
+    let batchGraphite: GraphiteDeposit[] = [];
+    let batchFinishes: number[] = [];
+    let batchErases = false;
+    const flush = () => {
+      if (batch.length > 0) this.drawDabs(batch, batchProfiles, batchColors, batchGraphite, batchFinishes, batchErases);
+      batch = [];
+      batchProfiles = [];
+      batchColors = [];
+      batchGraphite = [];
+      batchFinishes = [];
+    };
+
+    work.forEach(({ index, segment, previous }) => {
+      const erases = segment.tool === 'eraser';
+      const from = previous?.count ?? 0;
+      const stamped: StampedSegment = {
+        id: segment.id,
+        count: segment.points.length,
+        carry: 0,
+        travelled: 0,
+        open: !!segment.open,
+        pending: []
+      };
+      let dabs: Dab[];
+      if (segment.points[0]?.bristles) {
+        // Each hair lifts off on its own, so bristle traces end as they were laid
+        const hairs = createBristleDabs(segment, from, previous?.bristleCarries ?? []);
+        dabs = hairs.dabs;
+        stamped.bristleCarries = hairs.carries;
+      } else {
+        const result = createDabs(segment, from, previous?.carry ?? 0, previous?.travelled ?? 0);
+        const capped = capDabs(segment, [...(previous?.pending ?? []), ...result.dabs], result.travelled);
+        dabs = capped.ready;
+        stamped.carry = result.carry;
+        stamped.travelled = result.travelled;
+        stamped.pending = capped.pending;
+      }
+      const color = new THREE.Color(segment.color);
+      const profile = getDepositionProfile(segment);
+      const finish = getStrokeFinish(segment);
+      const stamp = (marks: Dab[], colors: THREE.Color[], erasing: boolean, graphite = NO_GRAPHITE) => {
+        if (erasing !== batchErases || batch.length >= MAX_DABS_PER_DRAW) flush();
+        batchErases = erasing;
+        marks.forEach((dab, i) => {
+          batch.push(dab);
+          batchProfiles.push(profile);
+          batchColors.push(colors[i]);
+          batchGraphite.push(graphite);
+          batchFinishes.push(finish);
+        });
+      };
+
+      if (segment.paint) {
+        if (!this.wet) this.wet = new WetLayer();
+        const marks = this.wet.paint(dabs, color, segment.paint, index, absorption);
+        stamp(marks.dabs, marks.colors, false);
+      } else if (erases) {
+        // Each eraser lifts graphite and ink by its own share, and may push graphite along
+        if (!this.pigment) this.pigment = new PigmentGrid();
+        const { lifted, smudged } = this.pigment.lift(dabs, segment.eraser, index);
+        stamp(lifted, lifted.map(() => color), true);
+        if (smudged.length > 0) stamp(smudged, smudged.map(() => SMUDGE_COLOR), false, SMUDGE_GRAPHITE);
+        // Wet paint the eraser passed over is dragged along and left smeared behind it
+        const smeared = this.wet?.smear(lifted, index);
+        if (smeared && smeared.dabs.length > 0) stamp(smeared.dabs, smeared.colors, false);
+      } else if (segment.tool === 'blendingStump') {
+        // Graphite picked up under the stump is carried along and laid back down softly
+        if (!this.pigment) this.pigment = new PigmentGrid();
+        const { lifted, smudged } = this.pigment.blend(dabs, index);
+        stamp(lifted, lifted.map(() => color), true);
+        if (smudged.length > 0) stamp(smudged, smudged.map(() => SMUDGE_COLOR), false, SMUDGE_GRAPHITE);
+      } else {
+        if (!this.pigment) this.pigment = new PigmentGrid();
+        this.pigment.lay(dabs, segment.tool === 'pen' ? 'ink' : 'graphite');
+        const graphite = getGraphiteDeposit(segment);
+        stamp(dabs, dabs.map(() => color), false, graphite);
+        // Later strokes find the tooth this one filled, however the strokes were batched
+        if (graphite.load > 0) flush();
+      }
+
+      this.stamped[index] = stamped;
+    });
+    flush();
+  }
+
+  // Fold this layer's wetness at studio time `now` into `out`; false when nothing is wet
+  accumulateWetness(now: number, out: Float32Array) {
+    return this.wet?.accumulateWetness(now, out) ?? false;
+  }
+
+  dispose() {
+    this.target.dispose();
+    this.graphite?.dispose();
+    this.wet = null;
+    this.pigment = null;
+  }
+
+  // Only the most recent stroke may have grown; earlier ones must be unchanged
+  private canContinue(segments: StrokeSegment[]) {
+    if (segments.length < this.stamped.length) return false;
+    return this.stamped.every((entry, i) => {
+      const segment = segments[i];
+      if (segment.id !== entry.id || segment.points.length < entry.count) return false;
+      return i === this.stamped.length - 1 || segment.points.length === entry.count;
+    });
+  }
+
+  private drawDabs(
+    dabs: Dab[],
+    profiles: DepositionProfile[],
+    colors: THREE.Color[],
+    graphite: GraphiteDeposit[],
+    finishes: number[],
+    erases: boolean
+  ) {
+    const { quad, depositMaterial, eraseMaterial, graphiteMaterial, noGraphite } = this.context;
+    const geometry = new THREE.InstancedBufferGeometry();
+    geometry.index = quad.index;
+    geometry.setAttribute('position', quad.getAttribute('position'));
+
+    const centers = new Float32Array(dabs.length * 2);
+    const shapes = new Float32Array(dabs.length * 3);
+    const rgba = new Float32Array(dabs.length * 4);
+    const deposits = new Float32Array(dabs.length * 4);
+    const packs = new Float32Array(dabs.length * 3);
+    const strokes = new Float32Array(dabs.length * 3);
+    const clips = new Float32Array(dabs.length * 3);
+    dabs.forEach((dab, i) => {
+      centers.set([dab.x, dab.z], i * 2);
+      shapes.set([dab.radius, dab.aspect, dab.rotation], i * 3);
+      rgba.set([colors[i].r, colors[i].g, colors[i].b, dab.alpha], i * 4);
+      deposits.set([profiles[i].grain, profiles[i].tooth, dab.pressure, dab.load], i * 4);
+      packs.set([graphite[i].load, graphite[i].burnish, graphite[i].sheen], i * 3);
+      strokes.set([dab.heading, dab.distance, finishes[i]], i * 3);
+      if (dab.clip) clips.set(dab.clip, i * 3);
+    });
+    geometry.setAttribute('aCenter', new THREE.InstancedBufferAttribute(centers, 2));
+    geometry.setAttribute('aShape', new THREE.InstancedBufferAttribute(shapes, 3));
+    geometry.setAttribute('aColor', new THREE.InstancedBufferAttribute(rgba, 4));
+    geometry.setAttribute('aDeposit', new THREE.InstancedBufferAttribute(deposits, 4));
+    geometry.setAttribute('aGraphite', new THREE.InstancedBufferAttribute(packs, 3));
+    geometry.setAttribute('aStroke', new THREE.InstancedBufferAttribute(strokes, 3));
+    geometry.setAttribute('aClip', new THREE.InstancedBufferAttribute(clips, 3));
+    geometry.instanceCount = dabs.length;
+
+    const uniforms = depositMaterial.uniforms;
+    uniforms.uGraphite.value = this.graphite?.texture ?? noGraphite;
+    const mesh = new THREE.Mesh(geometry, erases ? eraseMaterial : depositMaterial);
+    mesh.frustumCulled = false;
+    renderMesh(this.context, this.target, mesh);
+
+    // The same dabs pack graphite into the tooth, or lift it back out
+    const laysGraphite = !erases && graphite.some(deposit => deposit.load > 0);
+    if (laysGraphite && !this.graphite) {
+      this.graphite = createGraphiteTarget(this.width, this.height);
+      clearTarget(this.context.renderer, this.graphite);
+    }
+    if (this.graphite && (erases || laysGraphite)) {
+      uniforms.uGraphite.value = noGraphite; // Can't sample the buffer being drawn into
+      mesh.material = erases ? eraseMaterial : graphiteMaterial;
+      renderMesh(this.context, this.graphite, mesh);
+    }
+
+    // The quad's index and position buffers are shared; only release our own attributes
+    geometry.deleteAttribute('position');
+    geometry.index = null;
+    geometry.dispose();
+  }
+}
+
+// GPU pigment for the whole artwork: one MarkLayer per artwork layer, composited
+// bottom to top over a white ground with each layer's opacity and blend mode. The
+// composite is what the surface material uses as its color map, and the finish
+// map built from the wet film and the graphite in the tooth drives its shine.
+export class MarkStack {
+  readonly width: number;
+  readonly height: number;
+  private context: StampContext;
+  private compositeTarget: THREE.WebGLRenderTarget;
+  private flattenTarget: THREE.WebGLRenderTarget | null = null;
+  private graphiteTarget: THREE.WebGLRenderTarget; // Graphite of the visible layers together
+  private finishTarget: THREE.WebGLRenderTarget;
+  private compositeMaterials: Record<LayerBlendMode, THREE.RawShaderMaterial>;
+  private graphiteCompositeMaterial: THREE.RawShaderMaterial;
+  private finishMaterial: THREE.RawShaderMaterial;
+  private layers = new Map<string, MarkLayer>();
+  private topology: SurfaceTopology | null = null;
+  private wetness = new Float32Array(WET_GRID_COLUMNS * WET_GRID_ROWS);
+  private wetnessData = new Uint8Array(WET_GRID_COLUMNS * WET_GRID_ROWS * 4);
+  private showsWetness = false;
+  // R: wetness, G: roughness factor. Drives the gloss of wet paint and the wetness heat-map.
+  readonly wetnessTexture: THREE.DataTexture;
+
+  constructor(renderer: THREE.WebGLRenderer) {
+    this.width = Math.min(MAX_LAYER_WIDTH, renderer.capabilities.maxTextureSize);
+    this.height = Math.round(this.width * (SURFACE_HEIGHT / SURFACE_WIDTH));
+    this.compositeTarget = createLayerTarget(this.width, this.height);
+
+    const uniforms = {
+      uSurfaceSize: { value: new THREE.Vector2(SURFACE_WIDTH, SURFACE_HEIGHT) },
+      uGrainMap: { value: null as THREE.Texture | null },
+      uGrainRepeat: { value: new THREE.Vector2(1, 1) },
+      uGrainScale: { value: 1 },
+      uToothDepth: { value: 0 },
+      uGraphite: { value: null as THREE.Texture | null },
+      uAccumulate: { value: 0 }
+    };
+    const stampParameters = {
+      ...StampShader,
+      uniforms,
+      depthTest: false,
+      depthWrite: false,
+      blending: THREE.CustomBlending
+    };
+    this.context = {
+      renderer,
+      depositMaterial: new THREE.RawShaderMaterial({
+        ...stampParameters,
+        blendSrc: THREE.OneFactor,
+        blendDst: THREE.OneMinusSrcAlphaFactor
+      }),
+      // Shares the uniforms object; removal scales what is there by (1 - coverage)
+      eraseMaterial: new THREE.RawShaderMaterial({
+        ...stampParameters,
+        blendSrc: THREE.ZeroFactor,
+        blendDst: THREE.OneMinusSrcAlphaFactor
+      }),
+      // Packs graphite into the layer's tooth buffer, each channel saturating towards 1
+      graphiteMaterial: new THREE.RawShaderMaterial({
+        ...stampParameters,
+        uniforms: { ...uniforms, uAccumulate: { value: 1 } },
+        blendSrc: THREE.OneFactor,
+        blendDst: THREE.OneMinusSrcColorFactor
+      }),
+      noGraphite: new THREE.DataTexture(new Uint8Array(4), 1, 1),
+      quad: new THREE.PlaneGeometry(2, 2),
+      scene: new THREE.Scene(),
+      camera: new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+    };
+
+    const createCompositeMaterial = (mode: LayerBlendMode) => new THREE.RawShaderMaterial({
+      ...CompositeShader,
+      uniforms: { tPigment: { value: null as THREE.Texture | null }, uOpacity: { value: 1 } },
+      depthTest: false,
+      depthWrite: false,
+      blending: THREE.CustomBlending,
+      ...COMPOSITE_BLENDS[mode]
+    });
+    this.compositeMaterials = {
+      normal: createCompositeMaterial('normal'),
+      multiply: createCompositeMaterial('multiply')
+    };
+    this.context.noGraphite.needsUpdate = true;
+
+    this.graphiteTarget = createGraphiteTarget(this.width, this.height);
+    this.finishTarget = createGraphiteTarget(this.width, this.height);
+    this.graphiteCompositeMaterial = new THREE.RawShaderMaterial({
+      ...CompositeShader,
+      uniforms: { tPigment: { value: null as THREE.Texture | null }, uOpacity: { value: 1 } },
+      depthTest: false,
+      depthWrite: false,
+      blending: THREE.CustomBlending,
+      blendSrc: THREE.OneFactor,
+      blendDst: THREE.OneMinusSrcColorFactor
+    });
+
+    this.wetnessTexture = new THREE.DataTexture(this.wetnessData, WET_GRID_COLUMNS, WET_GRID_ROWS, THREE.RGBAFormat);
+    this.wetnessTexture.magFilter = THREE.LinearFilter;
+    this.finishMaterial = new THREE.RawShaderMaterial({
+      ...FinishShader,
+      uniforms: {
+        tWetness: { value: this.wetnessTexture },
+        tGraphite: { value: this.graphiteTarget.texture },
+        uWetGloss: { value: WET_GLOSS },
+        uGraphiteGloss: { value: GRAPHITE_GLOSS },
+        uGraphiteMetalness: { value: GRAPHITE_METALNESS }
+      },
+      depthTest: false,
+      depthWrite: false
+    });
+    this.writeWetness();
+
+    this.composite([]);
+  }
+
+  // Surface color map: visible layers composited over a white ground
+  get texture() {
+    return this.compositeTarget.texture;
+  }
+
+  // Surface finish map: wetness in R, roughness factor in G, metalness in B
+  get finishTexture() {
+    return this.finishTarget.texture;
+  }
+
+  // Bring every layer's pigment in line with its strokes and recomposite.
+  // `layers` runs bottom to top; buffers of layers that no longer exist are freed.
+  sync(layers: ArtworkLayer[], segmentsByLayer: Map<string, StrokeSegment[]>, topology: SurfaceTopology) {
+    if (topology !== this.topology) {
+      this.topology = topology;
+      const uniforms = this.context.depositMaterial.uniforms;
+      uniforms.uGrainMap.value = topology.displacementMap;
+      uniforms.uGrainRepeat.value.copy(topology.repeat);
+      uniforms.uGrainScale.value = topology.displacementScale;
+      uniforms.uToothDepth.value = topology.toothDepth;
+      this.layers.forEach(layer => layer.clear()); // New grain: repaint everything
+    }
+
+    this.layers.forEach((layer, id) => {
+      if (layers.some(entry => entry.id === id)) return;
+      layer.dispose();
+      this.layers.delete(id);
+    });
+
+    layers.forEach(entry => {
+      let layer = this.layers.get(entry.id);
+      if (!layer) {
+        layer = new MarkLayer(this.context, this.width, this.height);
+        this.layers.set(entry.id, layer);
+      }
+      layer.sync(segmentsByLayer.get(entry.id) ?? [], topology.absorption);
+    });
+
+    this.composite(layers);
+  }
+
+  // Wetness of the visible layers at studio time `now`
+  updateWetness(layers: ArtworkLayer[], now: number) {
+    this.wetness.fill(0);
+    let isWet = false;
+    layers.forEach(entry => {
+      const layer = this.layers.get(entry.id);
+      if (entry.visible && layer?.accumulateWetness(now, this.wetness)) isWet = true;
+    });
+    if (!isWet && !this.showsWetness) return; // Already showing a dry surface
+    this.showsWetness = isWet;
+    this.writeWetness();
+  }
+
+  // Visible layers flattened over transparency, premultiplied, for transparent exports.
+  // Without a ground to darken, multiply layers are laid down as normal ones.
+  flattenPigment(layers: ArtworkLayer[]) {
+    if (!this.flattenTarget) this.flattenTarget = createLayerTarget(this.width, this.height);
+    this.drawLayers(this.flattenTarget, layers, true, () => 'normal');
+    return this.flattenTarget.texture;
+  }
+
+  dispose() {
+    this.layers.forEach(layer => layer.dispose());
+    this.layers.clear();
+    this.compositeTarget.dispose();
+    this.flattenTarget?.dispose();
+    this.graphiteTarget.dispose();
+    this.finishTarget.dispose();
+    this.wetnessTexture.dispose();
+    this.context.depositMaterial.dispose();
+    this.context.eraseMaterial.dispose();
+    this.context.graphiteMaterial.dispose();
+    this.context.noGraphite.dispose();
+    this.compositeMaterials.normal.dispose();
+    this.compositeMaterials.multiply.dispose();
+    this.graphiteCompositeMaterial.dispose();
+    this.finishMaterial.dispose();
+    this.context.quad.dispose();
+  }
+
+  // Grid rows run along +Z; texture rows run up the surface's V, which points to -Z
+  private writeWetness() {
+    for (let row = 0; row < WET_GRID_ROWS; row++) {
+      const texelRow = WET_GRID_ROWS - 1 - row;
+      for (let column = 0; column < WET_GRID_COLUMNS; column++) {
+        const wetness = this.wetness[row * WET_GRID_COLUMNS + column];
+        const texel = (texelRow * WET_GRID_COLUMNS + column) * 4;
+        this.wetnessData[texel] = Math.round(wetness * 255);
+        this.wetnessData[texel + 1] = Math.round((1 - WET_GLOSS * wetness) * 255);
+        this.wetnessData[texel + 3] = 255;
+      }
+    }
+    this.wetnessTexture.needsUpdate = true;
+    this.writeFinish();
+  }
+
+  private writeFinish() {
+    renderMesh(this.context, this.finishTarget, new THREE.Mesh(this.context.quad, this.finishMaterial));
+  }
+
+  private composite(layers: ArtworkLayer[]) {
+    this.drawLayers(this.compositeTarget, layers, false, layer => layer.blendMode);
+
+    // Graphite of every visible layer shines, faded like its pigment by the layer opacity
+    clearTarget(this.context.renderer, this.graphiteTarget);
+    layers.forEach(entry => {
+      const graphite = this.layers.get(entry.id)?.graphiteTexture;
+      if (!graphite || !entry.visible || entry.opacity <= 0) return;
+      this.graphiteCompositeMaterial.uniforms.tPigment.value = graphite;
+      this.graphiteCompositeMaterial.uniforms.uOpacity.value = entry.opacity;
+      renderMesh(this.context, this.graphiteTarget, new THREE.Mesh(this.context.quad, this.graphiteCompositeMaterial));
+    });
+    this.writeFinish();
+  }
+
+  private drawLayers(
+    target: THREE.WebGLRenderTarget,
+    layers: ArtworkLayer[],
+    transparent: boolean,
+    blendModeOf: (layer: ArtworkLayer) => LayerBlendMode
+  ) {
+    const renderer = this.context.renderer;
+    withTarget(renderer, target, () => {
+      if (transparent) renderer.setClearColor(0x000000, 0);
+      else renderer.setClearColor(0xffffff, 1);
+      renderer.clear(true, false, false);
+    });
+
+    layers.forEach(entry => {
+      const layer = this.layers.get(entry.id);
+      if (!layer || !entry.visible || entry.opacity <= 0) return;
+      const material = this.compositeMaterials[blendModeOf(entry)];
+      material.uniforms.tPigment.value = layer.target.texture;
+      material.uniforms.uOpacity.value = entry.opacity;
+      renderMesh(this.context, target, new THREE.Mesh(this.context.quad, material));
+    });
+  }
+}
@@ -0,0 +1,28 @@
+import type { ToolPhysics } from './PhysicsEngine';
+
+export type MechanicalPencilSettings = ToolPhysics['mechanicalPencil'];
+
+export const LEAD_SIZES = [0.3, 0.5, 0.7, 0.9, 2.0]; // mm
+export const LEAD_ADVANCE_PER_CLICK = 0.5; // mm of lead one click pushes out
+export const MAX_LEAD_EXTENSION = 4; // mm; the sleeve won't grip the lead any further out
+export const MM_TO_WORLD = 0.02; // Scene units per mm of lead
+
+const STROKE_WIDTH_PER_MM = 3; // A 0.5mm lead draws about as wide as a sharp wooden pencil
+const WEAR_PER_UNIT = 0.05; // mm of lead worn away per surface unit drawn at full pressure
+const BREAKING_LOAD = 10; // Pressure × extension / diameter² a medium lead can take
+
+export const advanceLead = (extension: number) => Math.min(MAX_LEAD_EXTENSION, extension + LEAD_ADVANCE_PER_CLICK);
+
+// Fixed-diameter lead: the line is as wide as the lead, whatever the pressure
+export const getLeadStrokeWidth = ({ leadSize }: MechanicalPencilSettings) => leadSize * STROKE_WIDTH_PER_MM;
+
+// `wear` scales it for the lead's grade against an HB's
+export const wearLead = (extension: number, distance: number, pressure: number, wear = 1) =>
+  Math.max(0, extension - distance * pressure * WEAR_PER_UNIT * wear);
+
+// Lead sticking out of the sleeve is a cantilever: it snaps when the bending load
+// outgrows its section. Thin and soft leads give way first.
+export const isLeadOverloaded = ({ leadSize, leadHardness, leadExtension }: MechanicalPencilSettings, pressure: number) => {
+  const strength = BREAKING_LOAD * (0.7 + 0.1 * leadHardness) * leadSize * leadSize;
+  return pressure * leadExtension > strength;
+};
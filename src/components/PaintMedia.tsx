@@ -0,0 +1,63 @@
+import { Paint, DEFAULT_BRUSH_PAINT } from './PigmentMixing';
+
+export type PaintMedium = 'oil' | 'acrylic' | 'watercolor';
+
+// How a medium behaves once it leaves the brush
+export interface MediumProperties {
+  name: string;
+  description: string;
+  dryingRate: number; // Multiplier on the paint's own dryingTime
+  opacity: number; // Scales the mark's alpha; above 1 hides what is underneath faster
+  blending: number; // 0-1, how much still-wet paint underneath mixes into a new mark
+  flow: number; // How far water carries the mark past the bristles on a non-absorbent ground
+  edgeDarkening: number; // Pigment carried out to the rim of a drying wash
+  bloom: number; // Strength of the backrun when fresh water runs into a damp wash
+}
+
+export const PAINT_MEDIA: Record<PaintMedium, MediumProperties> = {
+  oil: {
+    name: 'Oil',
+    description: 'Stays open and blends into wet paint',
+    dryingRate: 1,
+    opacity: 1,
+    blending: 0.6,
+    flow: 0,
+    edgeDarkening: 0,
+    bloom: 0
+  },
+  acrylic: {
+    name: 'Acrylic',
+    description: 'Dries fast to an opaque film',
+    dryingRate: 0.1,
+    opacity: 1.4,
+    blending: 0.25,
+    flow: 0,
+    edgeDarkening: 0,
+    bloom: 0
+  },
+  watercolor: {
+    name: 'Watercolor',
+    description: 'Transparent washes that flow, pool and bloom',
+    dryingRate: 0.4,
+    opacity: 0.45,
+    blending: 0.5,
+    flow: 0.8,
+    edgeDarkening: 0.6,
+    bloom: 0.5
+  }
+};
+
+export const PAINT_MEDIUM_IDS = Object.keys(PAINT_MEDIA) as PaintMedium[];
+
+export const DEFAULT_PAINT_MEDIUM: PaintMedium = 'oil';
+
+// What a brush stroke was laid with, kept on the stroke so it repaints the same way
+export interface StrokePaint {
+  medium: PaintMedium;
+  dryingTime: number; // Seconds for the stroke to dry on the surface
+}
+
+export const createStrokePaint = (medium: PaintMedium, paint: Paint | null): StrokePaint => ({
+  medium,
+  dryingTime: (paint?.dryingTime ?? DEFAULT_BRUSH_PAINT.dryingTime) * PAINT_MEDIA[medium].dryingRate
+});
@@ -1,39 +1,78 @@
-import { useRef, useState } from 'react';
-import { useFrame } from '@react-three/fiber';
+import { useState, useRef } from 'react';
+import { Canvas, ThreeEvent } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Palette, X } from 'lucide-react';
+import { Paint, combinePaints } from './PigmentMixing';
+import { Palette, X, Brush, Slice, RotateCcw } from 'lucide-react';
 
-interface Color3D {
+interface Color3D extends Paint {
   id: string;
-  color: string;
-  viscosity: number;
-  dryingTime: number;
-  opacity: number;
   position: [number, number, number];
-  amount: number;
 }
 
+type PaletteTool = 'brush' | 'knife';
+
 interface Palette3DProps {
   isOpen: boolean;
   onClose: () => void;
+  loadedPaint: Paint | null;
+  onLoadPaint: (paint: Paint | null) => void;
 }
 
-const PaletteColors = ({ colors }: { colors: Color3D[] }) => {
+const WELL_RADIUS = 0.15;
+const MAX_WELL_AMOUNT = 2;
+const BRUSH_CAPACITY = 1;
+const PICKUP_RATE = 1.5; // Paint per second while the brush works a well
+const BACKWASH = 0.15; // Share of each pickup the brush leaves behind in the well
+const KNIFE_SCOOP = 0.25; // Paint carried per palette-knife drag
+
+const INITIAL_COLORS: Color3D[] = [
+  { id: '1', color: '#FF0000', viscosity: 0.8, dryingTime: 30, opacity: 0.9, position: [0.3, 0, 0.3], amount: 1.0 },
+  { id: '2', color: '#00FF00', viscosity: 0.7, dryingTime: 25, opacity: 0.9, position: [-0.3, 0, 0.3], amount: 1.0 },
+  { id: '3', color: '#0000FF', viscosity: 0.8, dryingTime: 35, opacity: 0.9, position: [0.3, 0, -0.3], amount: 1.0 },
+  { id: '4', color: '#FFFF00', viscosity: 0.6, dryingTime: 20, opacity: 0.9, position: [-0.3, 0, -0.3], amount: 1.0 },
+  { id: '5', color: '#FFFFFF', viscosity: 0.9, dryingTime: 40, opacity: 1.0, position: [0, 0, 0.5], amount: 1.0 },
+  { id: '6', color: '#000000', viscosity: 0.5, dryingTime: 15, opacity: 1.0, position: [0, 0, -0.5], amount: 1.0 },
+];
+
+// Blobs shrink as they are used up and grow when paint is mixed into them
+const getWellRadius = (color: Color3D) => WELL_RADIUS * Math.sqrt(Math.max(0.15, color.amount));
+
+const findWell = (colors: Color3D[], point: THREE.Vector3) =>
+  colors.find(color => Math.hypot(point.x - color.position[0], point.z - color.position[2]) < getWellRadius(color));
+
+const toPaint = ({ color, viscosity, dryingTime, opacity }: Paint, amount: number): Paint => ({
+  color, viscosity, dryingTime, opacity, amount
+});
+
+const splitPaint = (paint: Paint, amount: number): [Paint, Paint] => [
+  toPaint(paint, paint.amount - amount),
+  toPaint(paint, amount)
+];
+
+const PaletteColors = ({ colors, highlightId }: { colors: Color3D[]; highlightId?: string }) => {
   return (
-    <group position={[0, 0.01, 0]}>
+    <group position={[0, 0.035, 0]}>
       {colors.map((color) => (
-        <mesh key={color.id} position={color.position}>
-          <cylinderGeometry args={[0.15, 0.15, 0.02, 16]} />
-          <meshPhysicalMaterial 
-            color={color.color}
-            roughness={0.4}
-            metalness={0.0}
-            transmission={1 - color.opacity}
-            ior={1.5}
-          />
-        </mesh>
+        <group key={color.id} position={color.position}>
+          <mesh scale={[getWellRadius(color) / WELL_RADIUS, 0.5 + color.amount * 0.5, getWellRadius(color) / WELL_RADIUS]}>
+            <cylinderGeometry args={[WELL_RADIUS, WELL_RADIUS, 0.02, 16]} />
+            <meshPhysicalMaterial 
+              color={color.color}
+              roughness={0.4 - color.viscosity * 0.2}
+              metalness={0.0}
+              transmission={1 - color.opacity}
+              ior={1.5}
+            />
+          </mesh>
+          {highlightId === color.id && (
+            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.012, 0]}>
+              <ringGeometry args={[getWellRadius(color) + 0.01, getWellRadius(color) + 0.025, 32]} />
+              <meshBasicMaterial color="#333333" />
+            </mesh>
+          )}
+        </group>
       ))}
     </group>
   );
@@ -54,7 +93,7 @@ const PaletteBase = () => {
       </mesh>
       
       {/* Palette rim */}
-      <mesh position={[0, 0.03, 0]}>
+      <mesh position={[0, 0.03, 0]} rotation={[Math.PI / 2, 0, 0]}>
         <torusGeometry args={[1.2, 0.05, 8, 32]} />
         <meshPhysicalMaterial 
           color="#F5F5F5"
@@ -66,53 +105,193 @@ const PaletteBase = () => {
   );
 };
 
-export const Palette3DCanvas = ({ isOpen, onClose }: Palette3DProps) => {
-  const [colors] = useState<Color3D[]>([
-    { id: '1', color: '#FF0000', viscosity: 0.8, dryingTime: 30, opacity: 0.9, position: [0.3, 0, 0.3], amount: 1.0 },
-    { id: '2', color: '#00FF00', viscosity: 0.7, dryingTime: 25, opacity: 0.9, position: [-0.3, 0, 0.3], amount: 1.0 },
-    { id: '3', color: '#0000FF', viscosity: 0.8, dryingTime: 35, opacity: 0.9, position: [0.3, 0, -0.3], amount: 1.0 },
-    { id: '4', color: '#FFFF00', viscosity: 0.6, dryingTime: 20, opacity: 0.9, position: [-0.3, 0, -0.3], amount: 1.0 },
-    { id: '5', color: '#FFFFFF', viscosity: 0.9, dryingTime: 40, opacity: 1.0, position: [0, 0, 0.5], amount: 1.0 },
-    { id: '6', color: '#000000', viscosity: 0.5, dryingTime: 15, opacity: 1.0, position: [0, 0, -0.5], amount: 1.0 },
-  ]);
+// Brush tip (or knife blade) following the pointer over the palette
+const PaletteCursor = ({ tool, position, color }: { tool: PaletteTool; position: THREE.Vector3; color: string }) => {
+  return (
+    <group position={[position.x, 0.06, position.z]}>
+      {tool === 'brush' ? (
+        <mesh position={[0, 0.08, 0]} rotation={[Math.PI, 0, 0]}>
+          <coneGeometry args={[0.04, 0.16, 12]} />
+          <meshPhysicalMaterial color={color} roughness={0.6} />
+        </mesh>
+      ) : (
+        <mesh position={[0, 0.01, 0]} rotation={[0, Math.PI / 4, 0]}>
+          <boxGeometry args={[0.22, 0.01, 0.07]} />
+          <meshPhysicalMaterial color={color} roughness={0.2} metalness={0.6} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+export const Palette3DCanvas = ({ isOpen, onClose, loadedPaint, onLoadPaint }: Palette3DProps) => {
+  const [colors, setColors] = useState<Color3D[]>(INITIAL_COLORS);
+  const [tool, setTool] = useState<PaletteTool>('brush');
+  const [cursor, setCursor] = useState<THREE.Vector3 | null>(null);
+  const [hoverId, setHoverId] = useState<string | undefined>();
+  const [knifeLoad, setKnifeLoad] = useState<Color3D | null>(null);
+  const isPressedRef = useRef(false);
+  const lastMoveRef = useRef(0);
+
+  // Work the brush in a well: it picks paint up, and whatever it already carries
+  // bleeds back into the well, so both sides end up mixed
+  const workWell = (well: Color3D, deltaTime: number) => {
+    const load = loadedPaint ?? toPaint(well, 0);
+    const rate = PICKUP_RATE * (1.2 - well.viscosity * 0.5); // Stiff paint loads more slowly
+    const pickup = Math.min(well.amount, BRUSH_CAPACITY - load.amount, rate * deltaTime);
+    if (pickup <= 0) return;
+
+    const [carried, backwash] = splitPaint(load, Math.min(load.amount, pickup * BACKWASH));
+    const [remaining, taken] = splitPaint(well, pickup);
+    onLoadPaint(combinePaints(carried, taken));
+    setColors(prev => prev.map(color =>
+      color.id === well.id ? { ...color, ...combinePaints(remaining, backwash) } : color
+    ));
+  };
+
+  // Palette knife: scoop from one well and fold it into another
+  const foldInto = (source: Color3D, target: Color3D) => {
+    const scoop = Math.min(source.amount, KNIFE_SCOOP, MAX_WELL_AMOUNT - target.amount);
+    if (scoop <= 0) return;
+    const [remaining, carried] = splitPaint(source, scoop);
+    setColors(prev => prev.map(color => {
+      if (color.id === source.id) return { ...color, amount: remaining.amount };
+      if (color.id === target.id) return { ...color, ...combinePaints(target, carried) };
+      return color;
+    }));
+  };
+
+  const handlePointerDown = (event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+    isPressedRef.current = true;
+    lastMoveRef.current = performance.now();
+    const well = findWell(colors, event.point);
+    if (tool === 'knife') {
+      setKnifeLoad(well && well.amount > 0 ? well : null);
+    } else if (well) {
+      workWell(well, 1 / 60);
+    }
+  };
+
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+    setCursor(event.point.clone());
+    const well = findWell(colors, event.point);
+    setHoverId(well?.id);
+
+    const now = performance.now();
+    const deltaTime = Math.min(0.1, (now - lastMoveRef.current) / 1000);
+    lastMoveRef.current = now;
+    if (tool === 'brush' && isPressedRef.current && well) workWell(well, deltaTime);
+  };
+
+  const handlePointerUp = (event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+    isPressedRef.current = false;
+    const well = findWell(colors, event.point);
+    if (tool === 'knife' && knifeLoad && well && well.id !== knifeLoad.id) {
+      foldInto(knifeLoad, well);
+    }
+    setKnifeLoad(null);
+  };
+
+  const handlePointerLeave = () => {
+    isPressedRef.current = false;
+    setCursor(null);
+    setHoverId(undefined);
+    setKnifeLoad(null);
+  };
+
+  // Swatches load the brush straight from a well
+  const loadFromSwatch = (well: Color3D) => {
+    const amount = Math.min(well.amount, BRUSH_CAPACITY);
+    if (amount <= 0) return;
+    onLoadPaint(toPaint(well, amount));
+    setColors(prev => prev.map(color => (color.id === well.id ? { ...color, amount: color.amount - amount } : color)));
+  };
 
   if (!isOpen) return null;
 
+  const cursorColor = tool === 'knife'
+    ? knifeLoad?.color ?? '#B0B0B0'
+    : loadedPaint?.color ?? '#D2B48C';
+
   return (
     <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-50">
-      <Card className="w-96 h-96 ui-panel">
+      <Card className="w-96 ui-panel">
         <div className="flex items-center justify-between p-4 border-b">
           <div className="flex items-center gap-2">
             <Palette className="w-5 h-5" />
             <h3 className="font-semibold">3D Paint Palette</h3>
           </div>
-          <Button variant="ghost" size="sm" onClick={onClose}>
-            <X className="w-4 h-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button
+              variant={tool === 'brush' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setTool('brush')}
+              title="Brush: drag through wells to load paint"
+            >
+              <Brush className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={tool === 'knife' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setTool('knife')}
+              title="Palette knife: drag one color into another to mix"
+            >
+              <Slice className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setColors(INITIAL_COLORS)} title="Refill palette">
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
         
-        <div className="h-80 relative">
-          {/* 3D palette would be rendered here with Three.js */}
-          <div className="w-full h-full bg-gradient-to-br from-muted/20 to-muted/40 flex items-center justify-center">
-            <div className="text-center space-y-2">
-              <Palette className="w-12 h-12 mx-auto text-muted-foreground" />
-              <p className="text-sm text-muted-foreground">3D Palette Simulation</p>
-              <p className="text-xs text-muted-foreground">Mix colors with realistic physics</p>
-            </div>
+        <div className="h-64 relative">
+          <Canvas camera={{ position: [0, 2.2, 1.4], fov: 40 }} dpr={[1, 2]}>
+            <ambientLight intensity={0.7} />
+            <directionalLight position={[2, 4, 2]} intensity={1.1} />
+            <group
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerLeave}
+            >
+              <PaletteBase />
+              <PaletteColors colors={colors} highlightId={hoverId} />
+            </group>
+            {cursor && <PaletteCursor tool={tool} position={cursor} color={cursorColor} />}
+          </Canvas>
+        </div>
+
+        {/* Wells and the brush load */}
+        <div className="p-4 border-t bg-background/95 space-y-3">
+          <div className="grid grid-cols-6 gap-2">
+            {colors.map((color) => (
+              <button
+                key={color.id}
+                className="w-8 h-8 rounded-full border-2 border-white shadow-sm hover:scale-110 transition-transform disabled:opacity-40"
+                style={{ backgroundColor: color.color }}
+                disabled={color.amount <= 0}
+                onClick={() => loadFromSwatch(color)}
+                title={`Amount: ${Math.round(color.amount * 100)}%, Opacity: ${color.opacity.toFixed(2)}, Viscosity: ${color.viscosity.toFixed(2)}, Drying: ${Math.round(color.dryingTime)}s`}
+              />
+            ))}
           </div>
-          
-          {/* Color mixing controls */}
-          <div className="absolute bottom-0 left-0 right-0 p-4 border-t bg-background/95">
-            <div className="grid grid-cols-6 gap-2">
-              {colors.map((color) => (
-                <button
-                  key={color.id}
-                  className="w-8 h-8 rounded-full border-2 border-white shadow-sm hover:scale-110 transition-transform"
-                  style={{ backgroundColor: color.color }}
-                  title={`Opacity: ${color.opacity}, Viscosity: ${color.viscosity}`}
-                />
-              ))}
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <div className="flex items-center gap-2">
+              <div
+                className="w-5 h-5 rounded-full border"
+                style={{ backgroundColor: loadedPaint?.color ?? 'transparent' }}
+              />
+              {loadedPaint ? `Brush load ${Math.round(loadedPaint.amount * 100)}%` : 'Brush is clean'}
             </div>
+            <Button variant="ghost" size="sm" onClick={() => onLoadPaint(null)} disabled={!loadedPaint}>
+              Clean Brush
+            </Button>
           </div>
         </div>
       </Card>
@@ -0,0 +1,68 @@
+import type { ToolPhysics } from './PhysicsEngine';
+
+export type PenTip = ToolPhysics['pen']['tipMaterial'];
+
+export interface PenTipProperties {
+  name: string;
+  model: 'ball' | 'nib' | 'felt'; // What the 3D pen shows at its point
+  width: number; // Stroke width at no pressure
+  pressureWidth: number; // Extra width at full pressure
+  startDistance: number; // Surface units of travel before ink reaches full flow
+  startFlow: number; // Share of the flow a stroke starts with
+  skipRate: number; // Skips per surface unit at a brisk, light stroke
+  skipLength: number; // Surface units a skip lasts
+}
+
+export const PEN_TIPS: Record<PenTip, PenTipProperties> = {
+  // The ball has to roll a little before ink coats it, and skips when rushed
+  ballpoint: { name: 'Ballpoint', model: 'ball', width: 1.6, pressureWidth: 0.6, startDistance: 0.08, startFlow: 0.3, skipRate: 1.5, skipLength: 0.025 },
+  gel: { name: 'Gel', model: 'ball', width: 2.2, pressureWidth: 0.6, startDistance: 0.03, startFlow: 0.6, skipRate: 0.4, skipLength: 0.015 },
+  // Line width comes from the nib instead; see FountainNib
+  fountain: { name: 'Fountain', model: 'nib', width: 1.8, pressureWidth: 2.4, startDistance: 0.01, startFlow: 0.8, skipRate: 0.2, skipLength: 0.01 },
+  marker: { name: 'Marker', model: 'felt', width: 6, pressureWidth: 1, startDistance: 0, startFlow: 1, skipRate: 0, skipLength: 0 },
+  fineliner: { name: 'Fineliner', model: 'felt', width: 1.2, pressureWidth: 0.2, startDistance: 0.01, startFlow: 0.9, skipRate: 0.05, skipLength: 0.01 }
+};
+
+export const PEN_TIP_IDS = Object.keys(PEN_TIPS) as PenTip[];
+
+const SKIP_FLOW = 0.1; // Ink still reaching the surface during a skip
+const FULL_INK_FLOW = 0.7; // ToolPhysics inkFlow at which a pen lays ink without starving
+
+// Ink reaching the surface from a pen over one stroke: it starts thin while the tip
+// wets, then runs steadily apart from skips when the pen is rushed or barely pressed.
+// The flow is recorded as each sample's load, so the marks fade and break with it.
+export class InkFeed {
+  private tip: PenTipProperties = PEN_TIPS.ballpoint;
+  private inkFlow = FULL_INK_FLOW;
+  private travelled = 0;
+  private skipLeft = 0;
+
+  start({ tipMaterial, inkFlow }: ToolPhysics['pen']) {
+    this.tip = PEN_TIPS[tipMaterial];
+    this.inkFlow = inkFlow;
+    this.travelled = 0;
+    this.skipLeft = 0;
+  }
+
+  // Move the pen `distance` along the stroke and return the flow there
+  advance(distance: number, velocity: number, pressure: number) {
+    this.travelled += distance;
+    this.skipLeft = Math.max(0, this.skipLeft - distance);
+
+    // A starved pen skips more; pressing harder keeps the tip in contact with the ink
+    const starvation = Math.max(0, 1.2 - this.inkFlow / FULL_INK_FLOW);
+    const chance = this.tip.skipRate * distance * Math.min(3, velocity) * (1 - pressure) * starvation;
+    if (this.skipLeft === 0 && Math.random() < chance) {
+      this.skipLeft = this.tip.skipLength * (0.5 + Math.random());
+    }
+    return this.flow;
+  }
+
+  // 0-1 ink reaching the surface at the current point of the stroke
+  get flow() {
+    if (this.skipLeft > 0) return SKIP_FLOW;
+    const wetting = this.tip.startDistance > 0 ? Math.min(1, this.travelled / this.tip.startDistance) : 1;
+    const flow = this.tip.startFlow + (1 - this.tip.startFlow) * wetting;
+    return flow * Math.min(1, this.inkFlow / FULL_INK_FLOW);
+  }
+}
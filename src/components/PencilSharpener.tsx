@@ -0,0 +1,42 @@
+import type { LeadTipProfile } from './LeadTipPhysics';
+
+export type SharpenerType = 'cone' | 'longPoint' | 'sandingBlock';
+
+export interface SharpenerProperties {
+  name: string;
+  description: string;
+  profile: LeadTipProfile;
+  cut: number; // Scene units of pencil each sharpening takes off
+}
+
+export const SHARPENERS: Record<SharpenerType, SharpenerProperties> = {
+  cone: {
+    name: 'Cone Sharpener',
+    description: 'Standard blade sharpener: an even, all-purpose point',
+    profile: { taper: 0.7, curve: 1, flatten: 1, edge: 1 },
+    cut: 0.04
+  },
+  longPoint: {
+    name: 'Long-Point Sharpener',
+    description: 'Two-stage sharpener: a long, needle-fine point for detail',
+    profile: { taper: 0.9, curve: 1.6, flatten: 1, edge: 1 },
+    cut: 0.07
+  },
+  sandingBlock: {
+    name: 'Sanding Block',
+    description: 'Lead rubbed flat on two sides into a chisel for broad and fine lines',
+    profile: { taper: 0.5, curve: 1, flatten: 0.3, edge: 0.2 },
+    cut: 0.01
+  }
+};
+
+export const SHARPENER_TYPES = Object.keys(SHARPENERS) as SharpenerType[];
+
+export const DEFAULT_PENCIL_LENGTH = 1.5; // Scene units of wooden body on a new pencil
+export const MIN_PENCIL_LENGTH = 0.5; // Too short to hold or sharpen any further
+
+// Body left after sharpening with `sharpener`, or null when the stub can't take it
+export const getSharpenedLength = (length: number, sharpener: SharpenerType) => {
+  const next = length - SHARPENERS[sharpener].cut;
+  return next < MIN_PENCIL_LENGTH ? null : next;
+};
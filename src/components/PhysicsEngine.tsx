@@ -1,4 +1,5 @@
 import { useMemo } from 'react';
+import { HB_HARDNESS, getLeadProperties } from './LeadGrade';
 
 export interface PhysicsState {
   position: [number, number, number];
@@ -31,6 +32,7 @@ export interface ToolPhysics {
   pen: {
     inkFlow: number;
     tipMaterial: 'ballpoint' | 'gel' | 'fountain' | 'marker' | 'fineliner';
+    nib: 'fine' | 'italic' | 'flex'; // Fountain pens only
     pressure: number;
   };
   crayon: {
@@ -52,8 +54,32 @@ export interface ToolPhysics {
     residueProduction: number;
     mass: number;
   };
+  blendingStump: {
+    tip: 'tortillon' | 'stump';
+    pickup: number; // 0-1, how readily the paper takes up graphite
+    mass: number;
+  };
+}
+
+// Change to one tool's settings, as made from the tool panel or by the tool itself
+export type ToolPhysicsChange = <K extends keyof ToolPhysics>(tool: K, changes: Partial<ToolPhysics[K]>) => void;
+
+type SurfaceMaterialType = 'whiteboard' | 'canvas' | 'paper';
+
+export interface SurfaceMaterial {
+  friction: number;
+  absorption: number; // 0-1, how quickly the ground drinks water from wet media
+  texture: number;
 }
 
+const SURFACE_MATERIALS: Record<SurfaceMaterialType, SurfaceMaterial> = {
+  whiteboard: { friction: 0.1, absorption: 0.0, texture: 0.05 },
+  canvas: { friction: 0.8, absorption: 0.6, texture: 0.9 },
+  paper: { friction: 0.6, absorption: 0.4, texture: 0.3 }
+};
+
+const BRUSH_SAMPLE_SPACING = 0.0075; // Surface units between stroke samples at a steady drag
+
 export class ArtPhysicsEngine {
   private state: PhysicsState;
   private toolProperties: ToolPhysics;
@@ -72,7 +98,7 @@ export class ArtPhysicsEngine {
 
     this.toolProperties = {
       pencil: {
-        leadHardness: 2, // HB
+        leadHardness: HB_HARDNESS,
         tipSharpness: 0.8,
         wearRate: 0.001,
         mass: 0.05
@@ -90,6 +116,7 @@ export class ArtPhysicsEngine {
       pen: {
         inkFlow: 0.7,
         tipMaterial: 'ballpoint',
+        nib: 'italic',
         pressure: 0.6
       },
       crayon: {
@@ -100,9 +127,9 @@ export class ArtPhysicsEngine {
       },
       mechanicalPencil: {
         leadSize: 0.5,
-        leadHardness: 2,
+        leadHardness: HB_HARDNESS,
         clickMechanism: true,
-        leadExtension: 0.0
+        leadExtension: 1.0 // mm of lead out of the sleeve
       },
       eraser: {
         material: 'rubber',
@@ -110,31 +137,22 @@ export class ArtPhysicsEngine {
         wearRate: 0.002,
         residueProduction: 0.1,
         mass: 0.03
+      },
+      blendingStump: {
+        tip: 'tortillon',
+        pickup: 0.5,
+        mass: 0.01
       }
     };
   }
 
   // Calculate realistic pencil lead hardness effects
   calculateLeadProperties(hardness: number) {
-    const hardnessScale = ['8B', '6B', '4B', '2B', 'HB', '2H', '4H'];
-    const currentLead = hardnessScale[hardness] || 'HB';
-    
-    // Softer leads (lower index) wear faster and create darker marks
-    const wearRate = Math.max(0.0005, 0.003 - (hardness * 0.0004));
-    const darkness = Math.max(0.2, 1.0 - (hardness * 0.12));
-    const softness = Math.max(0.1, 1.0 - (hardness * 0.15));
-    
-    return {
-      leadType: currentLead,
-      wearRate,
-      darkness,
-      softness,
-      lineWidth: 0.5 + (softness * 2)
-    };
+    return getLeadProperties(hardness);
   }
 
   // Calculate brush physics with realistic bristle behavior
-  calculateBrushPhysics(pressure: number, velocity: number, paintLoad: number) {
+  calculateBrushPhysics(pressure: number, velocity: number, paintLoad: number = this.toolProperties.brush.paintLoad) {
     const brush = this.toolProperties.brush;
     
     // Bristle bending based on pressure and velocity
@@ -154,6 +172,15 @@ export class ArtPhysicsEngine {
     };
   }
 
+  // Drain the brush reservoir for a stretch of stroke. `paintDepletion` is the paint
+  // spent per sample at the nominal spacing, so longer moves spend proportionally more.
+  depleteBrushPaint(pressure: number, velocity: number, distance: number): number {
+    const brush = this.toolProperties.brush;
+    const { paintDepletion } = this.calculateBrushPhysics(pressure, velocity, brush.paintLoad);
+    brush.paintLoad = Math.max(0, brush.paintLoad - paintDepletion * (distance / BRUSH_SAMPLE_SPACING));
+    return brush.paintLoad;
+  }
+
   // Simulate elastic damping forces for realistic tool behavior
   applyElasticDamping(
     currentPosition: [number, number, number],
@@ -198,19 +225,18 @@ export class ArtPhysicsEngine {
     return { newPosition, newVelocity };
   }
 
+  // Physical make-up of a drawing surface
+  getSurfaceMaterial(surfaceType: SurfaceMaterialType): SurfaceMaterial {
+    return { ...SURFACE_MATERIALS[surfaceType] };
+  }
+
   // Calculate surface interaction effects
   calculateSurfaceInteraction(
-    surfaceType: 'whiteboard' | 'canvas' | 'paper',
+    surfaceType: SurfaceMaterialType,
     toolType: 'pencil' | 'brush' | 'pen',
     pressure: number
   ) {
-    const surfaceProperties = {
-      whiteboard: { friction: 0.1, absorption: 0.0, texture: 0.05 },
-      canvas: { friction: 0.8, absorption: 0.6, texture: 0.9 },
-      paper: { friction: 0.6, absorption: 0.4, texture: 0.3 }
-    };
-    
-    const surface = surfaceProperties[surfaceType];
+    const surface = SURFACE_MATERIALS[surfaceType];
     
     // Tool behaves differently on different surfaces
     const effectiveResistance = surface.friction * pressure;
@@ -274,6 +300,10 @@ export class ArtPhysicsEngine {
   getToolProperties(): ToolPhysics {
     return { ...this.toolProperties };
   }
+
+  updateToolProperties<K extends keyof ToolPhysics>(tool: K, changes: Partial<ToolPhysics[K]>) {
+    this.toolProperties[tool] = { ...this.toolProperties[tool], ...changes };
+  }
 }
 
 // Custom hook for using the physics engine
@@ -286,10 +316,13 @@ export const usePhysicsEngine = () => {
     calculateBrushPhysics: engine.calculateBrushPhysics.bind(engine),
     applyElasticDamping: engine.applyElasticDamping.bind(engine),
     calculateSurfaceInteraction: engine.calculateSurfaceInteraction.bind(engine),
+    getSurfaceMaterial: engine.getSurfaceMaterial.bind(engine),
     calculatePressureResponse: engine.calculatePressureResponse.bind(engine),
     calculateToolAngle: engine.calculateToolAngle.bind(engine),
     updateState: engine.updateState.bind(engine),
     getState: engine.getState.bind(engine),
-    getToolProperties: engine.getToolProperties.bind(engine)
+    getToolProperties: engine.getToolProperties.bind(engine),
+    updateToolProperties: engine.updateToolProperties.bind(engine),
+    depleteBrushPaint: engine.depleteBrushPaint.bind(engine)
   };
 };
\ No newline at end of file
@@ -0,0 +1,127 @@
+import type { Dab } from './MarkLayer';
+import { WET_GRID_COLUMNS, WET_GRID_ROWS, forEachGridCell } from './WetLayer';
+import { StrokeEraser, ERASER_MATERIALS, getEraserSmudge } from './EraserMaterial';
+
+const SMUDGE_PICKUP = 0.25; // Share of the graphite a smearing eraser pushes that it drags along per dab
+const SMUDGE_RELEASE = 0.3; // Share of the dragged graphite left behind at each dab
+const MIN_SMUDGE = 0.01;
+const STUMP_RELEASE = 0.2; // Share of the graphite a blending stump carries that it lays down at each dab
+const STUMP_SPREAD = 1.4; // Redeposited graphite spreads this much wider than the stump's dab
+
+export type DryPigment = 'graphite' | 'ink';
+
+// What an eraser or blending stump stroke does to the pigment: how hard each dab
+// removes, and the graphite it smears back down along the way
+export interface LiftMarks {
+  lifted: Dab[];
+  smudged: Dab[];
+}
+
+interface PigmentSample {
+  graphite: number;
+  ink: number;
+}
+
+// Dry pigment on one artwork layer, held on the same coarse grid as the wet film:
+// how much of each cell's coverage is graphite (or wax) and how much is ink. Erasers
+// read it to lift each by their own fraction, since the GPU buffer can't tell them
+// apart, and blending stumps to pick up only the graphite.
+export class PigmentGrid {
+  private readonly graphite = new Float32Array(WET_GRID_COLUMNS * WET_GRID_ROWS);
+  private readonly ink = new Float32Array(WET_GRID_COLUMNS * WET_GRID_ROWS);
+  private smudges = new Map<number, number>(); // Graphite an eraser or stump stroke is dragging, by stroke index
+
+  clear() {
+    this.graphite.fill(0);
+    this.ink.fill(0);
+    this.smudges.clear();
+  }
+
+  // Record dabs laid over the cells as `pigment`; they cover what is there like the stamp does
+  lay(dabs: Dab[], pigment: DryPigment) {
+    const target = pigment === 'ink' ? this.ink : this.graphite;
+    dabs.forEach(dab => {
+      forEachGridCell(dab.x, dab.z, dab.radius, cell => {
+        target[cell] += (1 - this.graphite[cell] - this.ink[cell]) * dab.alpha;
+      });
+    });
+  }
+
+  // Turn eraser stroke number `stroke`'s dabs, whose alpha is their lift on graphite,
+  // into what to remove where: ink only gives up the material's share of that. Strokes
+  // without an eraser record come from older documents and remove everything alike.
+  lift(dabs: Dab[], eraser: StrokeEraser | undefined, stroke: number): LiftMarks {
+    const inkLift = eraser ? ERASER_MATERIALS[eraser.material].inkLift : 1;
+    const marks: LiftMarks = { lifted: [], smudged: [] };
+    let smudge = this.smudges.get(stroke) ?? 0;
+
+    dabs.forEach(dab => {
+      const { graphite, ink } = this.sample(dab);
+      const covered = graphite + ink;
+      const alpha = covered > 0 ? dab.alpha * (graphite + ink * inkLift) / covered : dab.alpha;
+      marks.lifted.push({ ...dab, alpha });
+
+      // Graphite pushed rather than lifted rides along and is dropped a little at a time
+      const pickup = eraser ? graphite * getEraserSmudge(eraser.material, dab.pressure) * SMUDGE_PICKUP : 0;
+      smudge = smudge * (1 - SMUDGE_RELEASE) + pickup;
+
+      forEachGridCell(dab.x, dab.z, dab.radius, cell => {
+        this.graphite[cell] *= 1 - dab.alpha;
+        this.ink[cell] *= 1 - dab.alpha * inkLift;
+      });
+
+      if (smudge > MIN_SMUDGE) {
+        const smudged = { ...dab, radius: dab.radius * 0.8, alpha: Math.min(1, smudge * SMUDGE_RELEASE) };
+        marks.smudged.push(smudged);
+        this.lay([smudged], 'graphite');
+      }
+    });
+
+    this.smudges.set(stroke, smudge);
+    return marks;
+  }
+
+  // Blending stump stroke number `stroke`: each dab takes up its alpha's share of the
+  // graphite under it and lays part of what the stump carries back down, wider and
+  // softer, so dark passages bleed into light ones. Ink has soaked in and stays put.
+  blend(dabs: Dab[], stroke: number): LiftMarks {
+    const marks: LiftMarks = { lifted: [], smudged: [] };
+    let carried = this.smudges.get(stroke) ?? 0;
+
+    dabs.forEach(dab => {
+      const { graphite, ink } = this.sample(dab);
+      const covered = graphite + ink;
+      marks.lifted.push({ ...dab, alpha: covered > 0 ? dab.alpha * graphite / covered : 0 });
+      forEachGridCell(dab.x, dab.z, dab.radius, cell => {
+        this.graphite[cell] *= 1 - dab.alpha;
+      });
+
+      carried += graphite * dab.alpha;
+      const released = carried * STUMP_RELEASE;
+      carried -= released;
+      // The same graphite spread over a wider footprint lays down thinner
+      const alpha = released / (STUMP_SPREAD * STUMP_SPREAD);
+      if (alpha > MIN_SMUDGE) {
+        const smudged = { ...dab, radius: dab.radius * STUMP_SPREAD, alpha: Math.min(1, alpha) };
+        marks.smudged.push(smudged);
+        this.lay([smudged], 'graphite');
+      }
+    });
+
+    this.smudges.set(stroke, carried);
+    return marks;
+  }
+
+  // Mean coverage of each pigment over a dab's footprint
+  private sample(dab: Dab): PigmentSample {
+    let graphite = 0;
+    let ink = 0;
+    let cells = 0;
+    forEachGridCell(dab.x, dab.z, dab.radius, cell => {
+      cells++;
+      graphite += this.graphite[cell];
+      ink += this.ink[cell];
+    });
+    return { graphite: graphite / Math.max(1, cells), ink: ink / Math.max(1, cells) };
+  }
+}
@@ -0,0 +1,205 @@
+import * as THREE from 'three';
+
+// Smits (1999) reflectance basis: 10 bands across 380-720nm. Any RGB color is a
+// non-negative combination of white plus one secondary and one primary spectrum,
+// which gives smooth, plausible reflectance curves to mix in.
+const SPECTRAL_BASIS = {
+  white: [1.0, 1.0, 0.9999, 0.9993, 0.9992, 0.9998, 1.0, 1.0, 1.0, 1.0],
+  cyan: [0.971, 0.9426, 1.0007, 1.0007, 1.0007, 1.0007, 0.1564, 0.0, 0.0, 0.0],
+  magenta: [1.0, 1.0, 0.9685, 0.2229, 0.0, 0.0458, 0.8369, 1.0, 1.0, 0.9959],
+  yellow: [0.0001, 0.0, 0.1088, 0.6651, 1.0, 1.0, 0.9996, 0.9586, 0.9685, 0.984],
+  red: [0.1012, 0.0515, 0.0, 0.0, 0.0, 0.0, 0.8325, 1.0149, 1.0149, 1.0149],
+  green: [0.0, 0.0, 0.0273, 0.7937, 1.0, 0.9418, 0.1719, 0.0, 0.0, 0.0025],
+  blue: [1.0, 1.0, 0.8916, 0.3323, 0.0, 0.0, 0.0003, 0.0369, 0.0483, 0.0496]
+};
+type BasisName = keyof typeof SPECTRAL_BASIS;
+
+const BASIS_RGB: Record<BasisName, [number, number, number]> = {
+  white: [1, 1, 1],
+  cyan: [0, 1, 1],
+  magenta: [1, 0, 1],
+  yellow: [1, 1, 0],
+  red: [1, 0, 0],
+  green: [0, 1, 0],
+  blue: [0, 0, 1]
+};
+
+const BANDS = SPECTRAL_BASIS.white.length;
+const MIN_REFLECTANCE = 0.03; // Real pigments never absorb a band completely
+const BASE_SCATTERING = 0.15; // Dark pigments still scatter a little
+
+export type Spectrum = number[];
+
+// Solve A·x = b for a small dense system (Gauss-Jordan with partial pivoting)
+const solve = (a: number[][], b: number[]) => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+// Band weights mapping a spectrum back to linear RGB, chosen so every basis
+// spectrum returns exactly its own RGB (least-norm solution of M·B = C)
+const SPECTRUM_TO_RGB: Spectrum[] = (() => {
+  const names = Object.keys(SPECTRAL_BASIS) as BasisName[];
+  const gram = names.map(a => names.map(b =>
+    SPECTRAL_BASIS[a].reduce((sum, value, i) => sum + value * SPECTRAL_BASIS[b][i], 0)
+  ));
+  return [0, 1, 2].map(channel => {
+    const coefficients = solve(gram, names.map(name => BASIS_RGB[name][channel]));
+    return Array.from({ length: BANDS }, (_, band) =>
+      names.reduce((sum, name, k) => sum + coefficients[k] * SPECTRAL_BASIS[name][band], 0)
+    );
+  });
+})();
+
+const addScaled = (target: Spectrum, name: BasisName, amount: number) => {
+  if (amount <= 0) return;
+  SPECTRAL_BASIS[name].forEach((value, i) => {
+    target[i] += value * amount;
+  });
+};
+
+// Reflectance spectrum of a CSS color (RGB to spectrum after Smits)
+export const colorToSpectrum = (color: string): Spectrum => {
+  const { r, g, b } = new THREE.Color(color); // Linear RGB
+  const spectrum = new Array(BANDS).fill(0);
+
+  if (r <= g && r <= b) {
+    addScaled(spectrum, 'white', r);
+    if (g <= b) {
+      addScaled(spectrum, 'cyan', g - r);
+      addScaled(spectrum, 'blue', b - g);
+    } else {
+      addScaled(spectrum, 'cyan', b - r);
+      addScaled(spectrum, 'green', g - b);
+    }
+  } else if (g <= r && g <= b) {
+    addScaled(spectrum, 'white', g);
+    if (r <= b) {
+      addScaled(spectrum, 'magenta', r - g);
+      addScaled(spectrum, 'blue', b - r);
+    } else {
+      addScaled(spectrum, 'magenta', b - g);
+      addScaled(spectrum, 'red', r - b);
+    }
+  } else {
+    addScaled(spectrum, 'white', b);
+    if (r <= g) {
+      addScaled(spectrum, 'yellow', r - b);
+      addScaled(spectrum, 'green', g - r);
+    } else {
+      addScaled(spectrum, 'yellow', g - b);
+      addScaled(spectrum, 'red', r - g);
+    }
+  }
+
+  return spectrum.map(value => THREE.MathUtils.clamp(value, 0, 1));
+};
+
+export const spectrumToColor = (spectrum: Spectrum): string => {
+  const [r, g, b] = SPECTRUM_TO_RGB.map(weights =>
+    THREE.MathUtils.clamp(weights.reduce((sum, weight, i) => sum + weight * spectrum[i], 0), 0, 1)
+  );
+  return `#${new THREE.Color(r, g, b).getHexString()}`;
+};
+
+// Kubelka-Munk absorption/scattering ratio of an opaque layer with reflectance R.
+// Reflectance is lifted onto [MIN_REFLECTANCE, 1] going in and back coming out,
+// so mixing a color with itself returns it unchanged.
+const toKS = (reflectance: number) => {
+  const r = MIN_REFLECTANCE + (1 - MIN_REFLECTANCE) * reflectance;
+  return (1 - r) ** 2 / (2 * r);
+};
+const fromKS = (ks: number) => {
+  const r = 1 + ks - Math.sqrt(ks * ks + 2 * ks);
+  return Math.max(0, (r - MIN_REFLECTANCE) / (1 - MIN_REFLECTANCE));
+};
+
+// Light pigments (titanium white, cadmium yellow) scatter far more than dark
+// ones, which is why a little white turns red to pink instead of disappearing
+const getScattering = (color: string) => {
+  const { r, g, b } = new THREE.Color(color);
+  return BASE_SCATTERING + 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export interface PigmentPart {
+  color: string;
+  weight: number; // Relative concentration: amount of paint times its tinting strength
+}
+
+// Subtractive two-constant mix: absorption K and scattering S each add up by
+// concentration, and the mixture's reflectance follows from their ratio. Blue and
+// yellow make green, and a little black goes a long way.
+export const mixPigments = (parts: PigmentPart[]): string => {
+  const active = parts.filter(part => part.weight > 0);
+  if (active.length === 0) return '#000000';
+  if (active.length === 1) return active[0].color;
+
+  const total = active.reduce((sum, part) => sum + part.weight, 0);
+  const absorption = new Array(BANDS).fill(0);
+  let scattering = 0;
+  active.forEach(part => {
+    const concentration = part.weight / total;
+    const s = getScattering(part.color);
+    scattering += concentration * s;
+    colorToSpectrum(part.color).forEach((reflectance, i) => {
+      absorption[i] += concentration * s * toKS(reflectance);
+    });
+  });
+
+  return spectrumToColor(absorption.map(k => fromKS(k / scattering)));
+};
+
+// A quantity of paint as it sits in a palette well or on a brush
+export interface Paint {
+  color: string;
+  viscosity: number; // 0-1, thin wash to stiff impasto
+  dryingTime: number; // Seconds to touch-dry on the surface
+  opacity: number; // 0-1 hiding power; also how strongly the pigment tints a mixture
+  amount: number; // Palette wells start full at 1; a brush holds up to 1
+}
+
+// What the brush carries before anything is picked up from the palette
+export const DEFAULT_BRUSH_PAINT: Paint = {
+  color: '#2F2F2F',
+  viscosity: 0.7,
+  dryingTime: 30,
+  opacity: 0.9,
+  amount: 0.8
+};
+
+const getTintingStrength = (paint: Paint) => 0.3 + paint.opacity;
+
+// Combine two quantities of paint: pigments mix subtractively, handling
+// properties average by volume
+export const combinePaints = (a: Paint, b: Paint): Paint => {
+  const amount = a.amount + b.amount;
+  if (b.amount <= 0) return { ...a, amount };
+  if (a.amount <= 0) return { ...b, amount };
+
+  const average = (key: 'viscosity' | 'dryingTime' | 'opacity') =>
+    (a[key] * a.amount + b[key] * b.amount) / amount;
+
+  return {
+    color: mixPigments([
+      { color: a.color, weight: a.amount * getTintingStrength(a) },
+      { color: b.color, weight: b.amount * getTintingStrength(b) }
+    ]),
+    viscosity: average('viscosity'),
+    dryingTime: average('dryingTime'),
+    opacity: average('opacity'),
+    amount
+  };
+};
@@ -0,0 +1,177 @@
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { StrokeSegment } from './DrawingStrokeSystem';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+
+const MAX_IDLE_GAP = 1; // Seconds; longer pauses between or within strokes are compressed to this
+const FALLBACK_POINT_INTERVAL = 1 / 60; // Seconds per point for strokes recorded without timestamps
+const FALLBACK_STROKE_GAP = 0.4;
+
+interface ReplayTrack {
+  segment: StrokeSegment;
+  times: number[]; // Replay clock in seconds, one entry per point
+}
+
+export interface ReplayTimeline {
+  tracks: ReplayTrack[];
+  duration: number;
+}
+
+// Lay the recorded strokes out on a single replay clock. Idle time (thinking,
+// switching tools, leaving the tab open) is clamped so the time-lapse stays watchable.
+export const buildReplayTimeline = (segments: StrokeSegment[]): ReplayTimeline => {
+  const tracks: ReplayTrack[] = [];
+  let clock = 0;
+  let previousEnd: number | null = null;
+
+  segments.forEach(segment => {
+    if (segment.points.length === 0) return;
+    const stamps = segment.points.map(point => point.timestamp);
+    const times: number[] = [];
+
+    if (stamps[0] > 0) {
+      if (previousEnd !== null) {
+        clock += Math.min(MAX_IDLE_GAP, Math.max(0, (stamps[0] - previousEnd) / 1000));
+      } else if (tracks.length > 0) {
+        clock += FALLBACK_STROKE_GAP;
+      }
+      times.push(clock);
+      for (let i = 1; i < stamps.length; i++) {
+        clock += Math.min(MAX_IDLE_GAP, Math.max(0, (stamps[i] - stamps[i - 1]) / 1000));
+        times.push(clock);
+      }
+      previousEnd = stamps[stamps.length - 1];
+    } else {
+      if (tracks.length > 0) clock += FALLBACK_STROKE_GAP;
+      segment.points.forEach((_, i) => times.push(clock + i * FALLBACK_POINT_INTERVAL));
+      clock = times[times.length - 1];
+      previousEnd = null;
+    }
+
+    tracks.push({ segment, times });
+  });
+
+  return { tracks, duration: clock };
+};
+
+// Number of points whose replay time is at or before `time`
+const countPointsAt = (times: number[], time: number) => {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// Rebuild the canvas as it looked at `time`; the stroke in progress is cut at its last reached point
+export const getSegmentsAtTime = (timeline: ReplayTimeline, time: number): StrokeSegment[] => {
+  const visible: StrokeSegment[] = [];
+
+  for (const track of timeline.tracks) {
+    if (track.times[0] > time) break;
+    const count = countPointsAt(track.times, time);
+    if (count >= track.segment.points.length) {
+      visible.push(track.segment);
+    } else if (count > 1) {
+      visible.push({ ...track.segment, points: track.segment.points.slice(0, count), open: true });
+    }
+  }
+
+  return visible;
+};
+
+// Studio clock reading at replay `time`: when the last stroke reached was laid, run on
+// by the replay time since. Null before the first stroke or for strokes without a clock.
+export const getStudioTimeAt = (timeline: ReplayTimeline, time: number): number | null => {
+  let reached: ReplayTrack | null = null;
+  for (const track of timeline.tracks) {
+    if (track.times[0] > time) break;
+    reached = track;
+  }
+  if (!reached || reached.segment.laidAt === undefined) return null;
+  return reached.segment.laidAt + (time - reached.times[0]);
+};
+
+// Custom hook driving a time-lapse of the session. Outside replay the clock rests at
+// the end of the timeline and the live strokes are shown untouched.
+export const useStrokeReplay = (segments: StrokeSegment[]) => {
+  const timeline = useMemo(() => buildReplayTimeline(segments), [segments]);
+  const [isActive, setIsActive] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = ((now - last) / 1000) * speed;
+      last = now;
+      setCurrentTime(prev => Math.min(timeline.duration, prev + delta));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, timeline.duration]);
+
+  // Reaching the end hands the canvas back to the live drawing
+  useEffect(() => {
+    if (isActive && currentTime >= timeline.duration) {
+      setIsPlaying(false);
+      setIsActive(false);
+    }
+  }, [isActive, currentTime, timeline.duration]);
+
+  const seek = useCallback((time: number) => {
+    const clamped = Math.max(0, Math.min(timeline.duration, time));
+    setCurrentTime(clamped);
+    setIsActive(clamped < timeline.duration);
+  }, [timeline.duration]);
+
+  const togglePlay = useCallback(() => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    if (timeline.duration === 0) return;
+    if (!isActive) setCurrentTime(0);
+    setIsActive(true);
+    setIsPlaying(true);
+  }, [isPlaying, isActive, timeline.duration]);
+
+  const stop = useCallback(() => {
+    setIsPlaying(false);
+    setIsActive(false);
+  }, []);
+
+  const replaySegments = useMemo(
+    () => (isActive ? getSegmentsAtTime(timeline, currentTime) : segments),
+    [isActive, timeline, currentTime, segments]
+  );
+
+  const studioTime = useMemo(
+    () => (isActive ? getStudioTimeAt(timeline, currentTime) : null),
+    [isActive, timeline, currentTime]
+  );
+
+  return {
+    duration: timeline.duration,
+    currentTime: isActive ? currentTime : timeline.duration,
+    isActive,
+    isPlaying,
+    speed,
+    setSpeed,
+    segments: replaySegments,
+    studioTime,
+    togglePlay,
+    seek,
+    skipBack: () => seek(0),
+    stop
+  };
+};
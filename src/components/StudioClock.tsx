@@ -0,0 +1,53 @@
+import { useMemo, useEffect } from 'react';
+import { StrokeSegment } from './DrawingStrokeSystem';
+
+// Simulated time in seconds that wet paint dries on. It only runs while the studio
+// is playing, so pausing holds every wet stroke exactly as wet as it was.
+export class StudioClock {
+  private elapsed = 0;
+  private startedAt: number | null = null; // performance.now() when last started
+
+  now() {
+    return this.startedAt === null ? this.elapsed : this.elapsed + (performance.now() - this.startedAt) / 1000;
+  }
+
+  start() {
+    if (this.startedAt === null) this.startedAt = performance.now();
+  }
+
+  pause() {
+    this.elapsed = this.now();
+    this.startedAt = null;
+  }
+
+  set(seconds: number) {
+    this.elapsed = seconds;
+    if (this.startedAt !== null) this.startedAt = performance.now();
+  }
+}
+
+// Studio time of a sample: when its stroke was laid plus the time drawing it took.
+// Strokes recorded before the clock existed count as laid long ago.
+export const getSampleStudioTime = (segment: StrokeSegment, timestamp: number) =>
+  (segment.laidAt ?? -Infinity) + (timestamp - (segment.points[0]?.timestamp ?? timestamp)) / 1000;
+
+// Where the clock stood when the last of these strokes was finished, so a reopened
+// artwork carries on drying from the moment it was saved
+export const getLatestStudioTime = (segments: StrokeSegment[]) =>
+  segments.reduce((latest, segment) => {
+    const last = segment.points[segment.points.length - 1];
+    if (!last || segment.laidAt === undefined) return latest;
+    return Math.max(latest, getSampleStudioTime(segment, last.timestamp));
+  }, 0);
+
+// Custom hook keeping a studio clock in step with the studio's play state
+export const useStudioClock = (isPlaying: boolean) => {
+  const clock = useMemo(() => new StudioClock(), []);
+
+  useEffect(() => {
+    if (isPlaying) clock.start();
+    else clock.pause();
+  }, [clock, isPlaying]);
+
+  return clock;
+};
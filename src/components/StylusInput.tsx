@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+
+// How one pen's raw pressure maps onto tool pressure
+export interface StylusCalibration {
+  floor: number; // Raw pressure below this doesn't touch the paper
+  ceiling: number; // Raw pressure that already counts as full pressure
+  curve: number; // Exponent on the normalized pressure; above 1 needs a firmer hand
+}
+
+export const DEFAULT_STYLUS_CALIBRATION: StylusCalibration = { floor: 0, ceiling: 1, curve: 1 };
+
+// Lean of the pen from vertical, and the direction on the paper it leans towards
+export interface StylusTilt {
+  angle: number; // Radians, 0 upright to PI / 2 lying flat
+  azimuth: number; // Radians on the surface, the same way ArtCanvas3D measures movement direction
+}
+
+export interface StylusReading {
+  device: string; // Calibration key: one per physical pen where the browser tells them apart
+  pressure: number; // Raw 0-1
+  tilt: StylusTilt | null; // Null for pens that don't report tilt
+  roll: number | null; // Degrees of barrel rotation, as the tool panel's roll; null without twist
+}
+
+const CALIBRATION_KEY = 'plein-air:stylus-calibration';
+const MAX_ROLL = 45; // Degrees, as far as the Q/E keys roll the tool
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Pointer events give tilt as two angles in the screen's X and Y planes; fold them
+// into one lean. `viewAzimuth` is the direction on the surface that points down the
+// screen, towards the viewer, so the lean turns with the view.
+export const getStylusTilt = (tiltX: number, tiltY: number, viewAzimuth = 0): StylusTilt => {
+  const x = Math.tan(toRadians(tiltX));
+  const y = Math.tan(toRadians(tiltY));
+  return { angle: Math.atan(Math.hypot(x, y)), azimuth: Math.atan2(x, y) + viewAzimuth };
+};
+
+// Pen input only; mice keep the scroll wheel and touch has no pressure worth reading.
+// Pens that can't sense tilt or twist report zeros, which leave the keys and sliders in charge.
+export const readStylus = (event: PointerEvent, viewAzimuth = 0): StylusReading | null => {
+  if (event.pointerType !== 'pen') return null;
+  const { persistentDeviceId } = event as PointerEvent & { persistentDeviceId?: number };
+  const twist = event.twist > 180 ? event.twist - 360 : event.twist;
+  return {
+    device: persistentDeviceId ? `pen-${persistentDeviceId}` : 'pen',
+    pressure: event.pressure,
+    tilt: event.tiltX || event.tiltY ? getStylusTilt(event.tiltX, event.tiltY, viewAzimuth) : null,
+    roll: twist ? Math.max(-MAX_ROLL, Math.min(MAX_ROLL, Math.round(twist))) : null
+  };
+};
+
+// Tool pressure for a raw reading through the pen's calibration
+export const applyPressureCurve = (raw: number, { floor, ceiling, curve }: StylusCalibration) => {
+  const normalized = Math.max(0, Math.min(1, (raw - floor) / Math.max(0.01, ceiling - floor)));
+  return Math.pow(normalized, curve);
+};
+
+export const getStylusCalibration = (calibrations: Record<string, StylusCalibration>, device: string) =>
+  ({ ...DEFAULT_STYLUS_CALIBRATION, ...calibrations[device] });
+
+const loadCalibrations = (): Record<string, StylusCalibration> => {
+  try {
+    return JSON.parse(localStorage.getItem(CALIBRATION_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Calibration belongs to the pen, not the artwork, so it is kept per browser rather than per document
+export const useStylusCalibration = () => {
+  const [calibrations, setCalibrations] = useState(loadCalibrations);
+
+  useEffect(() => {
+    localStorage.setItem(CALIBRATION_KEY, JSON.stringify(calibrations));
+  }, [calibrations]);
+
+  const updateCalibration = useCallback((device: string, changes: Partial<StylusCalibration>) => {
+    setCalibrations(prev => ({ ...prev, [device]: { ...getStylusCalibration(prev, device), ...changes } }));
+  }, []);
+
+  return { calibrations, updateCalibration };
+};
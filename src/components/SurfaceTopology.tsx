@@ -0,0 +1,125 @@
+import * as THREE from 'three';
+import type { SurfaceType } from './ArtworkDocument';
+import { ArtPhysicsEngine } from './PhysicsEngine';
+
+export interface SurfaceProperties {
+  color: string;
+  roughness: number;
+  normalScale: number;
+  displacement: number;
+}
+
+// Procedural micro-topology shared by the surface mesh and the mark layer's grain
+export interface SurfaceTopology {
+  surfaceType: SurfaceType;
+  size: number;
+  repeat: THREE.Vector2;
+  displacementScale: number;
+  toothDepth: number; // 0-1, how strongly the relief starves light dry-media strokes
+  absorption: number; // 0-1, how quickly the ground soaks up water from wet media
+  normalMap: THREE.DataTexture;
+  displacementMap: THREE.DataTexture;
+}
+
+const TOPOLOGY_SIZE = 256; // Higher res for better topology
+
+const surfacePhysics = new ArtPhysicsEngine();
+
+export const getSurfaceProperties = (surfaceType: SurfaceType): SurfaceProperties => {
+  switch (surfaceType) {
+    case 'canvas':
+      return {
+        color: '#F5F5DC',
+        roughness: 0.9,
+        normalScale: 1.5,
+        displacement: 0.008, // Higher relief for canvas texture
+      };
+    case 'paper':
+      return {
+        color: '#FFFEF7',
+        roughness: 0.8,
+        normalScale: 0.8,
+        displacement: 0.003, // Subtle paper texture
+      };
+    default: // whiteboard
+      return {
+        color: '#FFFFFF',
+        roughness: 0.1,
+        normalScale: 0.2,
+        displacement: 0.001, // Nearly flat
+      };
+  }
+};
+
+export const createSurfaceTopology = (surfaceType: SurfaceType): SurfaceTopology => {
+  const size = TOPOLOGY_SIZE;
+  const { displacement } = getSurfaceProperties(surfaceType);
+  const normalData = new Uint8Array(size * size * 4);
+  const displacementData = new Float32Array(size * size);
+
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      const index = i * size + j;
+
+      // Multi-octave noise for realistic paper/canvas texture
+      const x = i / size;
+      const y = j / size;
+
+      let noise = 0;
+      noise += Math.sin(x * 100) * Math.cos(y * 100) * 0.3; // Fine grain
+      noise += Math.sin(x * 20) * Math.cos(y * 20) * 0.4;   // Medium grain
+      noise += Math.sin(x * 5) * Math.cos(y * 5) * 0.3;     // Coarse grain
+
+      // Surface-specific texture adjustments
+      if (surfaceType === 'canvas') {
+        noise += Math.sin(x * 200) * Math.sin(y * 150) * 0.2; // Canvas weave
+      } else if (surfaceType === 'paper') {
+        noise += (Math.random() - 0.5) * 0.1; // Paper fiber randomness
+      }
+
+      const normalizedNoise = (noise + 1) * 0.5; // 0-1 range
+
+      // Store displacement for 3D topology
+      displacementData[index] = normalizedNoise * displacement;
+
+      // Calculate normals for lighting
+      const normalValue = Math.floor(128 + (normalizedNoise - 0.5) * 127);
+      normalData[index * 4] = normalValue;
+      normalData[index * 4 + 1] = normalValue;
+      normalData[index * 4 + 2] = 255; // Point up mostly
+      normalData[index * 4 + 3] = 255;
+    }
+  }
+
+  const repeat = new THREE.Vector2(
+    surfaceType === 'canvas' ? 4 : surfaceType === 'paper' ? 2 : 1,
+    surfaceType === 'canvas' ? 3 : surfaceType === 'paper' ? 1.5 : 1
+  );
+
+  // textureVariation runs from 0.005 (whiteboard) to 0.09 (canvas); the square root
+  // keeps paper's tooth visible while whiteboard stays close to solid
+  const { textureVariation } = surfacePhysics.calculateSurfaceInteraction(surfaceType, 'pencil', 1);
+  const toothDepth = Math.min(1, Math.sqrt(textureVariation * 10));
+  const { absorption } = surfacePhysics.getSurfaceMaterial(surfaceType);
+
+  const normalMap = new THREE.DataTexture(normalData, size, size, THREE.RGBAFormat);
+  normalMap.wrapS = normalMap.wrapT = THREE.RepeatWrapping;
+  normalMap.repeat.copy(repeat);
+  normalMap.needsUpdate = true;
+
+  const displacementMap = new THREE.DataTexture(displacementData, size, size, THREE.RedFormat, THREE.FloatType);
+  displacementMap.wrapS = displacementMap.wrapT = THREE.RepeatWrapping;
+  displacementMap.repeat.copy(repeat);
+  displacementMap.needsUpdate = true;
+
+  return {
+    surfaceType,
+    size,
+    repeat,
+    displacementScale: displacement,
+    toothDepth,
+    absorption,
+    normalMap,
+    displacementMap
+  };
+};
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
+import { REPLAY_SPEEDS } from './StrokeReplay';
 import { 
   Play, 
   Pause, 
@@ -19,6 +20,11 @@ interface TimelineProps {
   currentTime: number;
   duration: number;
   onTimeChange: (time: number) => void;
+  onStop: () => void;
+  onSkipBack: () => void;
+  onSkipForward: () => void;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
 }
 
 export const Timeline = ({ 
@@ -26,7 +32,12 @@ export const Timeline = ({
   onPlayPause, 
   currentTime, 
   duration, 
-  onTimeChange 
+  onTimeChange,
+  onStop,
+  onSkipBack,
+  onSkipForward,
+  speed,
+  onSpeedChange
 }: TimelineProps) => {
   const [showKeyframes, setShowKeyframes] = useState(false);
 
@@ -36,11 +47,16 @@ export const Timeline = ({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const cycleSpeed = () => {
+    const index = REPLAY_SPEEDS.indexOf(speed);
+    onSpeedChange(REPLAY_SPEEDS[(index + 1) % REPLAY_SPEEDS.length]);
+  };
+
   return (
     <div className="h-20 ui-panel border-t border-border flex items-center px-4 gap-4">
       {/* Animation Controls */}
       <div className="flex items-center gap-2">
-        <Button variant="ghost" size="sm">
+        <Button variant="ghost" size="sm" onClick={onSkipBack} disabled={duration === 0} title="Rewind to start">
           <SkipBack className="w-4 h-4" />
         </Button>
         
@@ -48,17 +64,23 @@ export const Timeline = ({
           variant="ghost" 
           size="sm"
           onClick={onPlayPause}
+          disabled={duration === 0}
+          title={isPlaying ? "Pause replay" : "Replay drawing"}
         >
           {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
         </Button>
         
-        <Button variant="ghost" size="sm">
+        <Button variant="ghost" size="sm" onClick={onStop} title="Stop replay">
           <Square className="w-4 h-4" />
         </Button>
         
-        <Button variant="ghost" size="sm">
+        <Button variant="ghost" size="sm" onClick={onSkipForward} title="Jump to current drawing">
           <SkipForward className="w-4 h-4" />
         </Button>
+
+        <Button variant="outline" size="sm" onClick={cycleSpeed} className="font-mono w-12" title="Replay speed">
+          {speed}×
+        </Button>
       </div>
 
       {/* Time Display */}
@@ -74,9 +96,10 @@ export const Timeline = ({
         <Slider
           value={[currentTime]}
           onValueChange={(value) => onTimeChange(value[0])}
-          max={duration}
+          max={Math.max(duration, 0.1)}
           min={0}
           step={0.1}
+          disabled={duration === 0}
           className="w-full"
         />
       </div>
@@ -13,11 +13,14 @@ import {
   Database,
   ChevronLeft,
   ChevronRight,
-  Scissors
+  Scissors,
+  History,
+  Blend
 } from 'lucide-react';
 
-export type ToolType = 'pencil' | 'pen' | 'brush' | 'crayon' | 'mechanicalPencil' | 'eraser';
+export type ToolType = 'pencil' | 'pen' | 'brush' | 'crayon' | 'mechanicalPencil' | 'eraser' | 'blendingStump';
 export type InteractionMode = 'tool' | 'camera';
+export type SidebarPanel = 'chat' | 'layers' | 'history' | 'assets' | 'properties' | 'apis';
 
 interface ToolBarProps {
   activeTool: ToolType;
@@ -36,6 +39,7 @@ const tools = [
   { id: 'brush' as const, icon: Brush, name: 'Brush', color: '#8B0000' },
   { id: 'crayon' as const, icon: Palette, name: 'Crayon', color: '#FF6347' },
   { id: 'eraser' as const, icon: Eraser, name: 'Eraser', color: '#FFB6C1' },
+  { id: 'blendingStump' as const, icon: Blend, name: 'Blending Stump', color: '#B8B0A0' },
 ];
 
 export const ToolBar = ({
@@ -116,13 +120,19 @@ export const ToolBar = ({
   );
 };
 
-export const RightSidebar = () => {
+interface RightSidebarProps {
+  activePanel?: SidebarPanel | null;
+  onPanelToggle?: (panel: SidebarPanel) => void;
+}
+
+export const RightSidebar = ({ activePanel = null, onPanelToggle }: RightSidebarProps) => {
   const panels = [
-    { id: 'chat', icon: MessageSquare, name: 'AI Chat' },
-    { id: 'layers', icon: Layers, name: 'Layers' },
-    { id: 'assets', icon: FileImage, name: 'Assets' },
-    { id: 'properties', icon: Settings, name: 'Properties' },
-    { id: 'apis', icon: Database, name: 'APIs' },
+    { id: 'chat' as const, icon: MessageSquare, name: 'AI Chat' },
+    { id: 'layers' as const, icon: Layers, name: 'Layers' },
+    { id: 'history' as const, icon: History, name: 'History' },
+    { id: 'assets' as const, icon: FileImage, name: 'Assets' },
+    { id: 'properties' as const, icon: Settings, name: 'Properties' },
+    { id: 'apis' as const, icon: Database, name: 'APIs' },
   ];
 
   return (
@@ -133,8 +143,9 @@ export const RightSidebar = () => {
           return (
             <Button
               key={panel.id}
-              variant="ghost"
+              variant={activePanel === panel.id ? "default" : "ghost"}
               size="sm"
+              onClick={() => onPanelToggle?.(panel.id)}
               className="w-12 h-12 p-0 tool-transition"
               title={panel.name}
             >
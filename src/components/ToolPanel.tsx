@@ -5,11 +5,37 @@ import { Separator } from '@/components/ui/separator';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import { ToolType } from './ToolBar';
+import { PaintMedium, PAINT_MEDIA, PAINT_MEDIUM_IDS } from './PaintMedia';
+import { ToolPhysics, ToolPhysicsChange } from './PhysicsEngine';
+import { BRISTLE_SHAPES } from './BristleBrush';
+import { PEN_TIPS, PEN_TIP_IDS } from './PenInk';
+import { FOUNTAIN_NIBS, FOUNTAIN_NIB_IDS } from './FountainNib';
+import { LEAD_SIZES, MAX_LEAD_EXTENSION, advanceLead } from './MechanicalLead';
+import { ERASER_MATERIALS, ERASER_MATERIAL_IDS } from './EraserMaterial';
+import { STUMP_TIPS, STUMP_TIP_IDS } from './BlendingStump';
+import { SharpenerType, SHARPENERS, SHARPENER_TYPES } from './PencilSharpener';
+import { LEAD_GRADES, getLeadProperties } from './LeadGrade';
+import { StylusCalibration } from './StylusInput';
 import { 
   Settings,
   RotateCw,
-  Zap
+  Zap,
+  Droplets,
+  Brush,
+  PenTool,
+  PencilLine,
+  Eraser,
+  Blend,
+  Pencil
 } from 'lucide-react';
 
 interface ToolPanelProps {
@@ -23,6 +49,15 @@ interface ToolPanelProps {
   onSurfaceChange: (surface: 'whiteboard' | 'canvas' | 'paper') => void;
   leadY: number;
   onLeadYChange: (y: number) => void;
+  paintMedium: PaintMedium;
+  onPaintMediumChange: (medium: PaintMedium) => void;
+  toolSettings: ToolPhysics;
+  onToolSettingsChange: ToolPhysicsChange;
+  onKneadEraser: () => void;
+  onSharpenPencil: (sharpener: SharpenerType) => void;
+  stylusDevice: string | null; // Pen last used on a tablet, if any
+  stylusCalibration: StylusCalibration | null;
+  onStylusCalibrationChange: (changes: Partial<StylusCalibration>) => void;
 }
 
 export const ToolPanel = ({
@@ -35,11 +70,18 @@ export const ToolPanel = ({
   surfaceType,
   onSurfaceChange,
   leadY,
-  onLeadYChange
+  onLeadYChange,
+  paintMedium,
+  onPaintMediumChange,
+  toolSettings,
+  onToolSettingsChange,
+  onKneadEraser,
+  onSharpenPencil,
+  stylusDevice,
+  stylusCalibration,
+  onStylusCalibrationChange
 }: ToolPanelProps) => {
-  const [leadHardness, setLeadHardness] = useState(2); // 0=8B (soft) to 4=4H (hard)
   const [brushSize, setBrushSize] = useState(5);
-  const [paintType, setPaintType] = useState<'oil' | 'acrylic' | 'watercolor'>('oil');
   const [damping, setDamping] = useState(0.85);
   const [elasticity, setElasticity] = useState(1.2);
 
@@ -50,8 +92,6 @@ export const ToolPanel = ({
     { id: 'paper' as const, name: 'Paper', texture: 'Fine drawing paper' }
   ];
 
-  const leadTypes = ['8B', '6B', '4B', '2B', 'HB', '2H', '4H'];
-
   return (
     <Card className="w-80 h-full ui-panel custom-scrollbar overflow-y-auto">
       <div className="p-4 space-y-6">
@@ -84,10 +124,59 @@ export const ToolPanel = ({
                 className="w-full"
               />
               <p className="text-xs text-muted-foreground">
-                Scroll wheel to adjust during drawing
+                {stylusDevice ? 'Follows pen pressure and tilt; scroll wheel for a mouse' : 'Scroll wheel to adjust during drawing'}
               </p>
             </div>
 
+            {/* Stylus Calibration */}
+            {stylusDevice && stylusCalibration && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <PenTool className="w-4 h-4" />
+                  Stylus Calibration
+                </label>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">Pressure curve</span>
+                  <Badge variant="secondary">
+                    {stylusCalibration.curve < 0.95 ? 'Soft' : stylusCalibration.curve > 1.05 ? 'Firm' : 'Linear'} {stylusCalibration.curve.toFixed(2)}
+                  </Badge>
+                </div>
+                <Slider
+                  value={[stylusCalibration.curve]}
+                  onValueChange={(value) => onStylusCalibrationChange({ curve: value[0] })}
+                  max={2.5}
+                  min={0.4}
+                  step={0.05}
+                  className="w-full"
+                />
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">Ignore below</span>
+                  <Badge variant="secondary">{Math.round(stylusCalibration.floor * 100)}%</Badge>
+                </div>
+                <Slider
+                  value={[stylusCalibration.floor]}
+                  onValueChange={(value) => onStylusCalibrationChange({ floor: value[0] })}
+                  max={0.3}
+                  min={0}
+                  step={0.01}
+                  className="w-full"
+                />
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">Full pressure at</span>
+                  <Badge variant="secondary">{Math.round(stylusCalibration.ceiling * 100)}%</Badge>
+                </div>
+                <Slider
+                  value={[stylusCalibration.ceiling]}
+                  onValueChange={(value) => onStylusCalibrationChange({ ceiling: value[0] })}
+                  max={1}
+                  min={0.4}
+                  step={0.01}
+                  className="w-full"
+                />
+                <p className="text-xs text-muted-foreground">Saved for this pen on this browser</p>
+              </div>
+            )}
+
             {/* Angle Control */}
             <div className="space-y-2">
               <div className="flex items-center justify-between">
@@ -107,6 +196,266 @@ export const ToolPanel = ({
               />
             </div>
 
+            {/* Paint Medium */}
+            {activeTool === 'brush' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <Droplets className="w-4 h-4" />
+                  Paint Medium
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {PAINT_MEDIUM_IDS.map((medium) => (
+                    <Button
+                      key={medium}
+                      variant={paintMedium === medium ? "default" : "secondary"}
+                      size="sm"
+                      onClick={() => onPaintMediumChange(medium)}
+                      className="text-xs"
+                    >
+                      {PAINT_MEDIA[medium].name}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">{PAINT_MEDIA[paintMedium].description}</p>
+              </div>
+            )}
+
+            {/* Bristles */}
+            {activeTool === 'brush' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <Brush className="w-4 h-4" />
+                  Brush Shape
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {BRISTLE_SHAPES.map((shape) => (
+                    <Button
+                      key={shape.id}
+                      variant={toolSettings.brush.bristleShape === shape.id ? "default" : "secondary"}
+                      size="sm"
+                      onClick={() => onToolSettingsChange('brush', { bristleShape: shape.id })}
+                      className="text-xs"
+                    >
+                      {shape.name}
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">Stiffness</span>
+                  <Badge variant="secondary">{Math.round(toolSettings.brush.bristleStiffness * 100)}%</Badge>
+                </div>
+                <Slider
+                  value={[toolSettings.brush.bristleStiffness]}
+                  onValueChange={(value) => onToolSettingsChange('brush', { bristleStiffness: value[0] })}
+                  max={1}
+                  min={0.1}
+                  step={0.05}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            {/* Pen Tip */}
+            {activeTool === 'pen' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <PenTool className="w-4 h-4" />
+                  Pen Tip
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {PEN_TIP_IDS.map((tip) => (
+                    <Button
+                      key={tip}
+                      variant={toolSettings.pen.tipMaterial === tip ? "default" : "secondary"}
+                      size="sm"
+                      onClick={() => onToolSettingsChange('pen', { tipMaterial: tip })}
+                      className="text-xs"
+                    >
+                      {PEN_TIPS[tip].name}
+                    </Button>
+                  ))}
+                </div>
+                {toolSettings.pen.tipMaterial === 'fountain' && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">Nib</span>
+                      <Badge variant="secondary">45° + roll (Q/E)</Badge>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      {FOUNTAIN_NIB_IDS.map((nib) => (
+                        <Button
+                          key={nib}
+                          variant={toolSettings.pen.nib === nib ? "default" : "secondary"}
+                          size="sm"
+                          onClick={() => onToolSettingsChange('pen', { nib })}
+                          className="text-xs"
+                        >
+                          {FOUNTAIN_NIBS[nib].name}
+                        </Button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{FOUNTAIN_NIBS[toolSettings.pen.nib].description}</p>
+                  </>
+                )}
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">Ink Flow</span>
+                  <Badge variant="secondary">{Math.round(toolSettings.pen.inkFlow * 100)}%</Badge>
+                </div>
+                <Slider
+                  value={[toolSettings.pen.inkFlow]}
+                  onValueChange={(value) => onToolSettingsChange('pen', { inkFlow: value[0] })}
+                  max={1}
+                  min={0.1}
+                  step={0.05}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            {/* Lead Grade */}
+            {(activeTool === 'pencil' || activeTool === 'mechanicalPencil') && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium flex items-center gap-2">
+                    <Pencil className="w-4 h-4" />
+                    Lead Grade
+                  </label>
+                  <Badge variant="secondary">{getLeadProperties(toolSettings[activeTool].leadHardness).leadType}</Badge>
+                </div>
+                <div className="grid grid-cols-7 gap-1">
+                  {LEAD_GRADES.map((grade, hardness) => (
+                    <Button
+                      key={grade}
+                      variant={toolSettings[activeTool].leadHardness === hardness ? "default" : "secondary"}
+                      size="sm"
+                      onClick={() => onToolSettingsChange(activeTool, { leadHardness: hardness })}
+                      className="text-xs px-1"
+                    >
+                      {grade}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Softer B grades wear faster and lay darker, broader, shinier graphite; H grades stay sharp and pale
+                </p>
+              </div>
+            )}
+
+            {/* Mechanical Pencil Lead */}
+            {activeTool === 'mechanicalPencil' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <PencilLine className="w-4 h-4" />
+                  Lead Size
+                </label>
+                <div className="grid grid-cols-5 gap-1">
+                  {LEAD_SIZES.map((size) => (
+                    <Button
+                      key={size}
+                      variant={toolSettings.mechanicalPencil.leadSize === size ? "default" : "secondary"}
+                      size="sm"
+                      onClick={() => onToolSettingsChange('mechanicalPencil', { leadSize: size })}
+                      className="text-xs px-1"
+                    >
+                      {size.toFixed(1)}
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">Lead out of the sleeve</span>
+                  <Badge variant="secondary">{toolSettings.mechanicalPencil.leadExtension.toFixed(1)} mm</Badge>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  disabled={toolSettings.mechanicalPencil.leadExtension >= MAX_LEAD_EXTENSION}
+                  onClick={() => onToolSettingsChange('mechanicalPencil', {
+                    leadExtension: advanceLead(toolSettings.mechanicalPencil.leadExtension)
+                  })}
+                >
+                  Click to Advance Lead
+                </Button>
+              </div>
+            )}
+
+            {/* Eraser Material */}
+            {activeTool === 'eraser' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <Eraser className="w-4 h-4" />
+                  Eraser Material
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {ERASER_MATERIAL_IDS.map((material) => (
+                    <Button
+                      key={material}
+                      variant={toolSettings.eraser.material === material ? "default" : "secondary"}
+                      size="sm"
+                      onClick={() => onToolSettingsChange('eraser', { material })}
+                      className="text-xs"
+                    >
+                      {ERASER_MATERIALS[material].name}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">{ERASER_MATERIALS[toolSettings.eraser.material].description}</p>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">Crumbs</span>
+                  <Badge variant="secondary">{Math.round(toolSettings.eraser.residueProduction * 100)}%</Badge>
+                </div>
+                <Slider
+                  value={[toolSettings.eraser.residueProduction]}
+                  onValueChange={(value) => onToolSettingsChange('eraser', { residueProduction: value[0] })}
+                  max={0.5}
+                  min={0}
+                  step={0.01}
+                  className="w-full"
+                />
+                {toolSettings.eraser.material === 'kneaded' && (
+                  <Button variant="outline" size="sm" className="w-full" onClick={onKneadEraser}>
+                    Knead into Shape
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {/* Blending Stump */}
+            {activeTool === 'blendingStump' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <Blend className="w-4 h-4" />
+                  Blending Tip
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {STUMP_TIP_IDS.map((tip) => (
+                    <Button
+                      key={tip}
+                      variant={toolSettings.blendingStump.tip === tip ? "default" : "secondary"}
+                      size="sm"
+                      onClick={() => onToolSettingsChange('blendingStump', { tip })}
+                      className="text-xs"
+                    >
+                      {STUMP_TIPS[tip].name}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">{STUMP_TIPS[toolSettings.blendingStump.tip].description}</p>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">Pickup</span>
+                  <Badge variant="secondary">{Math.round(toolSettings.blendingStump.pickup * 100)}%</Badge>
+                </div>
+                <Slider
+                  value={[toolSettings.blendingStump.pickup]}
+                  onValueChange={(value) => onToolSettingsChange('blendingStump', { pickup: value[0] })}
+                  max={1}
+                  min={0.1}
+                  step={0.05}
+                  className="w-full"
+                />
+              </div>
+            )}
+
             {/* Lead Tip Y Position */}
             <div className="space-y-2">
               <div className="flex items-center justify-between">
@@ -188,9 +537,23 @@ export const ToolPanel = ({
         <div className="space-y-3">
           <h4 className="text-sm font-medium">Quick Actions</h4>
           <div className="grid grid-cols-2 gap-2">
-            <Button variant="outline" size="sm" className="text-xs">
-              Sharpen Pencil
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="text-xs">
+                  Sharpen Pencil
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-72">
+                <DropdownMenuLabel>Sharpen with</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {SHARPENER_TYPES.map((id) => (
+                  <DropdownMenuItem key={id} onSelect={() => onSharpenPencil(id)} className="flex-col items-start">
+                    <span>{SHARPENERS[id].name}</span>
+                    <span className="text-xs text-muted-foreground">{SHARPENERS[id].description}</span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button variant="outline" size="sm" className="text-xs">
               Clean Brush
             </Button>
@@ -0,0 +1,302 @@
+import * as THREE from 'three';
+import type { Dab } from './MarkLayer';
+import { SURFACE_WIDTH, SURFACE_HEIGHT } from './ArtworkExport';
+import { StrokePaint, PAINT_MEDIA, PAINT_MEDIUM_IDS } from './PaintMedia';
+import { mixPigments } from './PigmentMixing';
+
+const WET_CELL_SIZE = 0.025; // Surface units per cell of the wet film
+const WATERCOLOR_SOAK = 0.6; // Share of a wash's drying time a fully absorbent ground takes away
+const POOLING = 1.2; // Extra darkness of water that collects where the ground can't take it up
+const RIM_OFFSET = 0.8; // Rim dabs sit this far out towards the edge of the wash dab
+const RIM_RADIUS = 0.3; // Rim dab size as a fraction of the wash dab
+const RIM_STRENGTH = 2.5;
+const BLOOM_SPACING = 0.15; // Surface units between backruns along one stroke
+const BLOOM_PETALS = 7;
+const DAMP_RANGE: [number, number] = [0.02, 0.6]; // Remaining wetness of a wash that blooms when flooded
+const MIN_MIX = 0.01;
+const SMEAR_PICKUP = 0.6; // Share of the wet paint under an eraser that it drags along
+const SMEAR_RELEASE = 0.25; // Share of the dragged paint left behind at each dab
+const MIN_SMEAR = 0.02;
+
+export const WET_GRID_COLUMNS = Math.ceil(SURFACE_WIDTH / WET_CELL_SIZE);
+export const WET_GRID_ROWS = Math.ceil(SURFACE_HEIGHT / WET_CELL_SIZE);
+
+// Cells of the wet grid whose centres fall inside the footprint; a footprint smaller
+// than a cell still reaches the cell it sits in
+export const forEachGridCell = (x: number, z: number, radius: number, visit: (cell: number) => void) => {
+  const reach = Math.max(radius, WET_CELL_SIZE * 0.71);
+  const column = (x + SURFACE_WIDTH / 2) / WET_CELL_SIZE - 0.5;
+  const row = (z + SURFACE_HEIGHT / 2) / WET_CELL_SIZE - 0.5;
+  const span = reach / WET_CELL_SIZE;
+
+  const firstRow = Math.max(0, Math.ceil(row - span));
+  const lastRow = Math.min(WET_GRID_ROWS - 1, Math.floor(row + span));
+  const firstColumn = Math.max(0, Math.ceil(column - span));
+  const lastColumn = Math.min(WET_GRID_COLUMNS - 1, Math.floor(column + span));
+  for (let r = firstRow; r <= lastRow; r++) {
+    for (let c = firstColumn; c <= lastColumn; c++) {
+      if ((c - column) ** 2 + (r - row) ** 2 <= span * span) visit(r * WET_GRID_COLUMNS + c);
+    }
+  }
+};
+
+// What lies under a dab's footprint
+interface WetSample {
+  wetness: number; // Mean wetness of paint from any stroke
+  foreignWetness: number; // Mean wetness of paint from earlier strokes only
+  damp: number; // Share of the footprint holding a half-dry wash from an earlier stroke
+  color: THREE.Color; // Wetness-weighted linear color of the wet paint
+}
+
+// Where a stroke (or one hair of it) was last stamped and last bloomed, so incremental calls continue it
+interface StrokeTrail {
+  x: number;
+  z: number;
+  bloomX: number;
+  bloomZ: number;
+}
+
+// Paint an eraser has picked up and is dragging along
+interface Smear {
+  color: THREE.Color;
+  amount: number;
+}
+
+export interface WetMarks {
+  dabs: Dab[];
+  colors: THREE.Color[];
+}
+
+const hash = (x: number, z: number) => {
+  const value = Math.sin(x * 127.1 + z * 311.7) * 43758.5453;
+  return value - Math.floor(value);
+};
+
+const toHex = (color: THREE.Color) => `#${color.getHexString()}`;
+
+// Each hair of a bristle brush runs its own trail, so rims follow the hair's path
+const getTrailKey = (stroke: number, dab: Dab) => `${stroke}:${dab.track ?? -1}`;
+
+// Paint still wet on one artwork layer, held on a coarse grid over the surface.
+// Brush strokes in a wet medium read it to mix with, flow into and bloom against
+// what is already there, then write their own paint back. Time is the studio clock
+// recorded with the samples, so repainting the same strokes gives the same marks.
+export class WetLayer {
+  private readonly columns = WET_GRID_COLUMNS;
+  private readonly rows = WET_GRID_ROWS;
+  private readonly water: Float32Array; // Wet paint or water laid in the cell, 0-1
+  private readonly pigment: Float32Array; // Linear RGB of the wet paint
+  private readonly wetAt: Float64Array; // Studio clock seconds the cell was last wetted
+  private readonly dryingTime: Float32Array; // Seconds
+  private readonly medium: Uint8Array; // Index into PAINT_MEDIUM_IDS + 1; 0 is bare ground
+  private readonly stroke: Int32Array; // Index of the stroke that last wetted the cell + 1
+  private trails = new Map<string, StrokeTrail>(); // Keyed by getTrailKey
+  private smears = new Map<number, Smear>();
+  private wetUntil = -Infinity; // Studio time the last wet cell dries
+
+  constructor() {
+    const cells = this.columns * this.rows;
+    this.water = new Float32Array(cells);
+    this.pigment = new Float32Array(cells * 3);
+    this.wetAt = new Float64Array(cells);
+    this.dryingTime = new Float32Array(cells);
+    this.medium = new Uint8Array(cells);
+    this.stroke = new Int32Array(cells);
+  }
+
+  clear() {
+    this.water.fill(0);
+    this.medium.fill(0);
+    this.stroke.fill(0);
+    this.trails.clear();
+    this.smears.clear();
+    this.wetUntil = -Infinity;
+  }
+
+  // Lay the dabs of brush stroke number `stroke` into the film and return what to
+  // stamp for them. Oil and acrylic pull wet paint underneath into the mark;
+  // watercolor also spreads with the water, pools, darkens at its rim and blooms.
+  paint(dabs: Dab[], color: THREE.Color, paint: StrokePaint, stroke: number, absorption: number): WetMarks {
+    const medium = PAINT_MEDIA[paint.medium];
+    const mediumIndex = PAINT_MEDIUM_IDS.indexOf(paint.medium) + 1;
+    const isWash = paint.medium === 'watercolor';
+    // An absorbent ground drinks a wash and dries it sooner; oil and acrylic dry by themselves
+    const dryingTime = isWash ? paint.dryingTime * (1 - WATERCOLOR_SOAK * absorption) : paint.dryingTime;
+    const standing = 1 - absorption; // Water the ground leaves on top
+    const brushHex = toHex(color);
+    const marks: WetMarks = { dabs: [], colors: [] };
+    const push = (dab: Dab, dabColor: THREE.Color) => {
+      marks.dabs.push(dab);
+      marks.colors.push(dabColor);
+    };
+
+    dabs.forEach(dab => {
+      const under = this.sample(dab.x, dab.z, dab.radius, dab.time, stroke);
+      const trailKey = getTrailKey(stroke, dab);
+      const trail = this.trails.get(trailKey);
+
+      // Wet paint underneath is dragged into the new mark and mixes subtractively
+      const mix = medium.blending * Math.min(1, under.wetness);
+      const markColor = mix > MIN_MIX
+        ? new THREE.Color(mixPigments([
+          { color: brushHex, weight: 1 - mix },
+          { color: toHex(under.color), weight: mix }
+        ]))
+        : color;
+
+      let radius = dab.radius;
+      let alpha = dab.alpha * medium.opacity;
+      let pooled = 0;
+      if (isWash) {
+        // Water runs further on a ground that won't drink it, and much further into a wet wash
+        radius *= 1 + medium.flow * (0.35 * standing + under.foreignWetness);
+        // Flooding a wash that is still wet leaves standing water that dries darker
+        pooled = Math.min(1, under.foreignWetness * standing);
+        alpha *= 1 + POOLING * pooled;
+
+        // Fresh water running into a half-dry wash pushes its pigment out into a backrun
+        const sinceBloom = trail ? Math.hypot(dab.x - trail.bloomX, dab.z - trail.bloomZ) : Infinity;
+        if (under.damp > 0.3 && dab.load > 0.5 && sinceBloom > BLOOM_SPACING) {
+          const petalAlpha = Math.min(1, dab.alpha * medium.bloom * RIM_STRENGTH * under.damp);
+          for (let k = 0; k < BLOOM_PETALS; k++) {
+            const jitter = hash(dab.x + k, dab.z - k);
+            const angle = ((k + jitter * 0.6) / BLOOM_PETALS) * Math.PI * 2;
+            const distance = radius * (1.4 + 0.6 * jitter);
+            push({
+              ...dab,
+              x: dab.x + Math.cos(angle) * distance,
+              z: dab.z + Math.sin(angle) * distance,
+              radius: radius * (0.35 + 0.2 * hash(dab.z + k, dab.x)),
+              aspect: 1,
+              alpha: petalAlpha
+            }, under.color.clone());
+          }
+          alpha *= 1 - 0.5 * medium.bloom; // The flood leaves a paler centre
+          this.trails.set(trailKey, { x: dab.x, z: dab.z, bloomX: dab.x, bloomZ: dab.z });
+        }
+      }
+      alpha = Math.min(1, alpha);
+
+      push({ ...dab, radius, alpha }, markColor);
+
+      // Pigment migrates to the edge of a drying wash: hard dark rims where it meets dry
+      // ground on either side of the path, soft edges where it runs into wet paint
+      if (isWash && trail) {
+        const dx = dab.x - trail.x;
+        const dz = dab.z - trail.z;
+        const length = Math.hypot(dx, dz);
+        if (length > 1e-6) {
+          [-1, 1].forEach(side => {
+            const x = dab.x - (dz / length) * side * radius * RIM_OFFSET;
+            const z = dab.z + (dx / length) * side * radius * RIM_OFFSET;
+            const rimWater = this.sample(x, z, radius * RIM_RADIUS, dab.time, stroke).foreignWetness;
+            const rimAlpha = dab.alpha * medium.edgeDarkening * RIM_STRENGTH
+              * (1 - 0.5 * absorption) * (1 - Math.min(1, rimWater)) * (1 + pooled);
+            if (rimAlpha < 0.002) return;
+            push({ ...dab, x, z, radius: radius * RIM_RADIUS, aspect: 1, alpha: Math.min(1, rimAlpha) }, markColor);
+          });
+        }
+      }
+
+      forEachGridCell(dab.x, dab.z, radius, cell => {
+        this.water[cell] = Math.max(this.getWetness(cell, dab.time), dab.load);
+        this.pigment.set([markColor.r, markColor.g, markColor.b], cell * 3);
+        this.wetAt[cell] = dab.time;
+        this.dryingTime[cell] = dryingTime;
+        this.medium[cell] = mediumIndex;
+        this.stroke[cell] = stroke + 1;
+      });
+      this.wetUntil = Math.max(this.wetUntil, dab.time + dryingTime);
+
+      const latest = this.trails.get(trailKey);
+      this.trails.set(trailKey, {
+        x: dab.x,
+        z: dab.z,
+        bloomX: latest?.bloomX ?? Infinity,
+        bloomZ: latest?.bloomZ ?? Infinity
+      });
+    });
+
+    return marks;
+  }
+
+  // Erasers lift wet paint off with the pigment but drag some of it along, leaving it
+  // smeared over their path; dry paint erases cleanly. Returns the smeared paint to stamp.
+  smear(dabs: Dab[], stroke: number): WetMarks {
+    const marks: WetMarks = { dabs: [], colors: [] };
+    const smear = this.smears.get(stroke) ?? { color: new THREE.Color(), amount: 0 };
+
+    dabs.forEach(dab => {
+      const under = this.sample(dab.x, dab.z, dab.radius, dab.time, stroke);
+      if (smear.amount > MIN_SMEAR) {
+        marks.dabs.push({ ...dab, radius: dab.radius * 0.8, alpha: Math.min(1, dab.alpha * smear.amount) });
+        marks.colors.push(smear.color.clone());
+      }
+
+      const pickup = Math.min(1, under.wetness) * SMEAR_PICKUP;
+      const amount = smear.amount * (1 - SMEAR_RELEASE) + pickup;
+      if (pickup > 0) smear.color.lerp(under.color, pickup / amount);
+      smear.amount = amount;
+
+      forEachGridCell(dab.x, dab.z, dab.radius, cell => {
+        this.water[cell] *= 1 - dab.alpha;
+      });
+    });
+
+    this.smears.set(stroke, smear);
+    return marks;
+  }
+
+  // Raise `out` to this layer's wetness at studio time `now`, cell by cell. False
+  // when everything here has dried.
+  accumulateWetness(now: number, out: Float32Array) {
+    if (now >= this.wetUntil) return false;
+    let isWet = false;
+    for (let cell = 0; cell < out.length; cell++) {
+      const wetness = this.getWetness(cell, now);
+      if (wetness <= 0) continue;
+      isWet = true;
+      if (wetness > out[cell]) out[cell] = Math.min(1, wetness);
+    }
+    return isWet;
+  }
+
+  private getWetness(cell: number, time: number) {
+    if (this.medium[cell] === 0 || !Number.isFinite(time)) return 0;
+    const remaining = 1 - (time - this.wetAt[cell]) / this.dryingTime[cell];
+    return this.water[cell] * THREE.MathUtils.clamp(remaining, 0, 1);
+  }
+
+  private sample(x: number, z: number, radius: number, time: number, stroke: number): WetSample {
+    const color = new THREE.Color(0, 0, 0);
+    let cells = 0;
+    let wetness = 0;
+    let foreignWetness = 0;
+    let damp = 0;
+
+    forEachGridCell(x, z, radius, cell => {
+      cells++;
+      const cellWetness = this.getWetness(cell, time);
+      if (cellWetness <= 0) return;
+      wetness += cellWetness;
+      color.r += this.pigment[cell * 3] * cellWetness;
+      color.g += this.pigment[cell * 3 + 1] * cellWetness;
+      color.b += this.pigment[cell * 3 + 2] * cellWetness;
+      if (this.stroke[cell] === stroke + 1) return;
+
+      foreignWetness += cellWetness;
+      const remaining = cellWetness / this.water[cell];
+      if (PAINT_MEDIUM_IDS[this.medium[cell] - 1] === 'watercolor' && remaining > DAMP_RANGE[0] && remaining < DAMP_RANGE[1]) {
+        damp++;
+      }
+    });
+
+    if (wetness > 0) color.multiplyScalar(1 / wetness);
+    return {
+      wetness: cells > 0 ? wetness / cells : 0,
+      foreignWetness: cells > 0 ? foreignWetness / cells : 0,
+      damp: cells > 0 ? damp / cells : 0,
+      color
+    };
+  }
+}
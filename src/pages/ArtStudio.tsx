@@ -1,31 +1,71 @@
-import { useState, useEffect, useCallback } from 'react';
-import { ArtCanvas3D } from '@/components/ArtCanvas3D';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ArtCanvas3D, ArtCanvas3DHandle } from '@/components/ArtCanvas3D';
 import { ToolPanel } from '@/components/ToolPanel';
-import { ToolBar, RightSidebar, ToolType, InteractionMode } from '@/components/ToolBar';
+import { ToolBar, RightSidebar, ToolType, InteractionMode, SidebarPanel } from '@/components/ToolBar';
 import { Timeline } from '@/components/Timeline';
 import { Palette3DCanvas } from '@/components/Palette3D';
-import { usePhysicsEngine } from '@/components/PhysicsEngine';
+import { usePhysicsEngine, ToolPhysics, ToolPhysicsChange } from '@/components/PhysicsEngine';
 import { PleinAirLogo } from '@/components/PleinAirLogo';
+import { DocumentMenu } from '@/components/DocumentMenu';
+import { HistoryPanel } from '@/components/HistoryPanel';
+import { LayersPanel } from '@/components/LayersPanel';
+import { ExportDialog } from '@/components/ExportDialog';
+import { useStrokeReplay } from '@/components/StrokeReplay';
+import { buildSvgDocument, svgToBlob } from '@/components/ArtworkExport';
+import {
+  useHistory,
+  createStrokeCommand,
+  createValueCommand,
+  createClearCommand,
+  createActionCommand,
+  createCompositeCommand,
+  estimateSegmentBytes
+} from '@/components/HistoryManager';
+import { useArtworkDocument, ArtworkContent, ArtworkDocument, SurfaceType } from '@/components/ArtworkDocument';
+import { StrokeSegment } from '@/components/DrawingStrokeSystem';
+import { Paint, DEFAULT_BRUSH_PAINT } from '@/components/PigmentMixing';
+import { PaintMedium, DEFAULT_PAINT_MEDIUM, createStrokePaint } from '@/components/PaintMedia';
+import { useStudioClock, getLatestStudioTime } from '@/components/StudioClock';
+import { advanceLead } from '@/components/MechanicalLead';
+import {
+  ArtworkLayer,
+  MAX_LAYERS,
+  createLayer,
+  createDefaultLayers,
+  getDefaultBlendMode,
+  getNextLayerName
+} from '@/components/ArtworkLayers';
+import { LeadWearState } from '@/components/LeadTipPhysics';
+import { SharpenerType, SHARPENERS, DEFAULT_PENCIL_LENGTH, getSharpenedLength } from '@/components/PencilSharpener';
+import { StylusReading, applyPressureCurve, getStylusCalibration, useStylusCalibration } from '@/components/StylusInput';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { 
   Play, 
   Pause, 
   RotateCcw, 
-  Save, 
   Share2, 
   Maximize2,
   Menu,
   X,
   User,
   HelpCircle,
-  BookOpen
+  BookOpen,
+  Download
 } from 'lucide-react';
 
-type SurfaceType = 'whiteboard' | 'canvas' | 'paper';
-
 export const ArtStudio = () => {
   const [activeTool, setActiveTool] = useState<ToolType>('pencil');
   const [surfaceType, setSurfaceType] = useState<SurfaceType>('canvas');
@@ -33,19 +73,264 @@ export const ArtStudio = () => {
   const [angle, setAngle] = useState(0);
   const [roll, setRoll] = useState(0);
   const [leadY, setLeadY] = useState(-0.98);
+  const [pencilLength, setPencilLength] = useState(DEFAULT_PENCIL_LENGTH);
   const [isPlaying, setIsPlaying] = useState(true);
   const [showToolPanel, setShowToolPanel] = useState(true);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [mode, setMode] = useState<InteractionMode>('tool');
   const [showPalette, setShowPalette] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration] = useState(30);
+  const [activePanel, setActivePanel] = useState<SidebarPanel | null>(null);
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const canvasRef = useRef<ArtCanvas3DHandle>(null);
+  const [segments, setSegments] = useState<StrokeSegment[]>([]);
+  const [layers, setLayers] = useState<ArtworkLayer[]>(createDefaultLayers);
+  const [selectedLayerId, setSelectedLayerId] = useState(() => layers[0].id);
+  // Undoing a deletion or opening a document can leave the selection dangling; fall back to the top layer
+  const activeLayerId = layers.some(layer => layer.id === selectedLayerId) ? selectedLayerId : layers[layers.length - 1].id;
+  const replay = useStrokeReplay(segments);
+  const [leadWear, setLeadWear] = useState<LeadWearState | null>(null);
+  const [loadedPaint, setLoadedPaint] = useState<Paint | null>(DEFAULT_BRUSH_PAINT);
+  const [paintMedium, setPaintMedium] = useState<PaintMedium>(DEFAULT_PAINT_MEDIUM);
+  const liveLeadWearRef = useRef<LeadWearState | null>(null);
+  const studioClock = useStudioClock(isPlaying);
+  const [showWetness, setShowWetness] = useState(false);
   
   const { engine, calculatePressureResponse, getState } = usePhysicsEngine();
+  // What the tool panel shows; the engine keeps its own copy for its calculations
+  const [toolSettings, setToolSettings] = useState<ToolPhysics>(() => engine.getToolProperties());
+
+  const handleToolSettingsChange = useCallback<ToolPhysicsChange>((tool, changes) => {
+    engine.updateToolProperties(tool, changes);
+    setToolSettings(prev => ({ ...prev, [tool]: { ...prev[tool], ...changes } }));
+  }, [engine]);
+
+  const pencilHardness = toolSettings.pencil.leadHardness;
+  const mechanicalPencilHardness = toolSettings.mechanicalPencil.leadHardness;
+
   const { toast } = useToast();
 
   // Enhanced pressure/gravity control with scroll wheel
   const [gravity, setGravity] = useState(0.5); // 0 = lifting off paper, 1 = max pressure
+
+  // Pen tablets drive pressure, tilt and roll directly, through each pen's calibration
+  const [stylusDevice, setStylusDevice] = useState<string | null>(null);
+  const stylusRestoreRef = useRef<{ gravity: number; pressure: number } | null>(null); // Wheel pressure to return to when the pen lifts
+  const { calibrations: stylusCalibrations, updateCalibration: updateStylusCalibration } = useStylusCalibration();
+
+  // Command-based undo/redo for strokes and tool state
+  const {
+    entries: historyEntries,
+    cursor: historyCursor,
+    totalSize: historySize,
+    maxBytes: historyMaxBytes,
+    execute: executeCommand,
+    undo,
+    redo,
+    jumpTo: jumpToHistory,
+    clear: clearHistory
+  } = useHistory();
+
+  // Artwork document persistence (IndexedDB autosave + reopen on launch)
+  const artworkContent = useMemo<ArtworkContent>(() => ({
+    surfaceType,
+    toolSettings: {
+      pressure,
+      angle,
+      roll,
+      leadY,
+      pencilLength,
+      leadHardness: { pencil: pencilHardness, mechanicalPencil: mechanicalPencilHardness }
+    },
+    layers,
+    strokes: segments,
+    leadWear
+  }), [surfaceType, pressure, angle, roll, leadY, pencilLength, pencilHardness, mechanicalPencilHardness, layers, segments, leadWear]);
+
+  const handleDocumentOpen = useCallback((doc: ArtworkDocument) => {
+    setSurfaceType(doc.surfaceType);
+    setPressure(doc.toolSettings.pressure);
+    setGravity(doc.toolSettings.pressure);
+    setAngle(doc.toolSettings.angle);
+    setRoll(doc.toolSettings.roll);
+    setLeadY(doc.toolSettings.leadY);
+    setPencilLength(doc.toolSettings.pencilLength);
+    handleToolSettingsChange('pencil', { leadHardness: doc.toolSettings.leadHardness.pencil });
+    handleToolSettingsChange('mechanicalPencil', { leadHardness: doc.toolSettings.leadHardness.mechanicalPencil });
+    setLayers(doc.layers);
+    setSelectedLayerId(doc.layers[doc.layers.length - 1].id);
+    setSegments(doc.strokes);
+    studioClock.set(getLatestStudioTime(doc.strokes)); // Paint saved wet picks up drying where it stopped
+    liveLeadWearRef.current = doc.leadWear;
+    setLeadWear(doc.leadWear ?? []); // Always a new reference so the scene re-applies wear
+    clearHistory();
+  }, [clearHistory, studioClock, handleToolSettingsChange]);
+
+  const captureLeadWear = useCallback(() => liveLeadWearRef.current, []);
+
+  const {
+    documentId,
+    documentName,
+    recentDocuments,
+    lastSavedAt,
+    saveNow,
+    openDocument,
+    newDocument
+  } = useArtworkDocument({
+    content: artworkContent,
+    captureLeadWear,
+    onOpen: handleDocumentOpen
+  });
+
+  const handleSave = useCallback(() => {
+    saveNow()
+      .then(() => toast({ title: "Saved", description: "Your artwork has been saved" }))
+      .catch(() => toast({ title: "Save Failed", description: "Could not write to browser storage", variant: "destructive" }));
+  }, [saveNow, toast]);
+
+  const handleOpenDocument = useCallback((id: string) => {
+    openDocument(id)
+      .then((opened) => {
+        if (!opened) toast({ title: "Not Found", description: "That artwork is no longer stored", variant: "destructive" });
+      })
+      .catch(() => toast({ title: "Open Failed", description: "Could not read from browser storage", variant: "destructive" }));
+  }, [openDocument, toast]);
+
+  const handleNewDocument = useCallback(() => {
+    newDocument();
+    toast({ title: "New Artwork", description: "Started a blank artwork" });
+  }, [newDocument, toast]);
+
+  const { stop: stopReplay } = replay;
+  const handleSegmentComplete = useCallback((segment: StrokeSegment) => {
+    // Drawing during a replay returns to the live canvas
+    stopReplay();
+    executeCommand(createStrokeCommand(segment, setSegments));
+  }, [executeCommand, stopReplay]);
+
+  const changeSurface = useCallback((surface: SurfaceType) => {
+    if (surface === surfaceType) return;
+    const name = surface.charAt(0).toUpperCase() + surface.slice(1);
+    executeCommand(createValueCommand(`${name} surface`, surfaceType, surface, setSurfaceType));
+  }, [surfaceType, executeCommand]);
+
+  const updateLayers = useCallback((label: string, next: ArtworkLayer[]) => {
+    executeCommand(createValueCommand(label, layers, next, setLayers));
+  }, [layers, executeCommand]);
+
+  // New layers go directly above the active one, blending to suit the tool in hand
+  const addLayer = useCallback(() => {
+    if (layers.length >= MAX_LAYERS) {
+      toast({ title: "Layer Limit", description: `Artworks can have up to ${MAX_LAYERS} layers`, variant: "destructive" });
+      return;
+    }
+    const layer = createLayer(getNextLayerName(layers), { blendMode: getDefaultBlendMode(activeTool) });
+    const index = layers.findIndex(entry => entry.id === activeLayerId) + 1;
+    updateLayers('Add layer', [...layers.slice(0, index), layer, ...layers.slice(index)]);
+    setSelectedLayerId(layer.id);
+  }, [layers, activeLayerId, activeTool, updateLayers, toast]);
+
+  // Deleting a layer takes its strokes with it; undo restores both
+  const deleteLayer = useCallback((id: string) => {
+    const layer = layers.find(entry => entry.id === id);
+    if (!layer || layers.length <= 1) return;
+    const index = layers.indexOf(layer);
+    const remaining = layers.filter(entry => entry.id !== id);
+    const kept = segments.filter(segment => segment.layerId !== id);
+    const removedSize = segments
+      .filter(segment => segment.layerId === id)
+      .reduce((sum, segment) => sum + estimateSegmentBytes(segment), 0);
+
+    executeCommand(createCompositeCommand(`Delete ${layer.name}`, [
+      createValueCommand('Layers', layers, remaining, setLayers),
+      createValueCommand('Strokes', segments, kept, (value: StrokeSegment[]) => setSegments(value), removedSize)
+    ]));
+    setSelectedLayerId(remaining[Math.max(0, index - 1)].id);
+  }, [layers, segments, executeCommand]);
+
+  const updateLayer = useCallback((id: string, changes: Partial<Omit<ArtworkLayer, 'id'>>) => {
+    const layer = layers.find(entry => entry.id === id);
+    if (!layer) return;
+    const label =
+      changes.name !== undefined ? `Rename ${layer.name}` :
+      changes.visible !== undefined ? `${changes.visible ? 'Show' : 'Hide'} ${layer.name}` :
+      changes.locked !== undefined ? `${changes.locked ? 'Lock' : 'Unlock'} ${layer.name}` :
+      changes.opacity !== undefined ? `${layer.name} opacity` :
+      `${layer.name} blend mode`;
+    updateLayers(label, layers.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+  }, [layers, updateLayers]);
+
+  const moveLayer = useCallback((fromIndex: number, toIndex: number) => {
+    const next = [...layers];
+    const [moved] = next.splice(fromIndex, 1);
+    next.splice(toIndex, 0, moved);
+    updateLayers(`Move ${moved.name}`, next);
+  }, [layers, updateLayers]);
+
+  const layerStrokeCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    segments.forEach(segment => counts.set(segment.layerId, (counts.get(segment.layerId) ?? 0) + 1));
+    return counts;
+  }, [segments]);
+
+  // Undoable reset: strokes come back and the lead tip, crayon and eraser regain their previous wear
+  const resetCanvas = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const previousWear = canvas.getLeadWear();
+    const previousToolWear = canvas.getToolWear();
+    executeCommand(createCompositeCommand('Reset canvas', [
+      createClearCommand(segments, setSegments),
+      createActionCommand(
+        'Reset scene',
+        () => canvasRef.current?.resetScene(),
+        () => {
+          canvasRef.current?.restoreLeadWear(previousWear);
+          canvasRef.current?.restoreToolWear(previousToolWear);
+        }
+      )
+    ]));
+    toast({ title: "Canvas Reset", description: "Starting fresh! Press Ctrl+Z to bring your work back." });
+  }, [segments, executeCommand, toast]);
+
+  // Undoable sharpening: a fresh point cut to the sharpener's profile, and a shorter pencil
+  const sharpenPencil = useCallback((sharpener: SharpenerType) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const { name } = SHARPENERS[sharpener];
+    const shortened = getSharpenedLength(pencilLength, sharpener);
+    if (shortened === null) {
+      toast({ title: "Pencil Too Short", description: "There's not enough pencil left to sharpen", variant: "destructive" });
+      return;
+    }
+
+    const previousWear = canvas.getLeadWear();
+    executeCommand(createCompositeCommand(`Sharpen (${name})`, [
+      createActionCommand(
+        'Sharpen lead',
+        () => canvasRef.current?.sharpenLead(sharpener),
+        () => canvasRef.current?.restoreLeadWear(previousWear)
+      ),
+      createValueCommand('Pencil length', pencilLength, shortened, setPencilLength)
+    ]));
+    toast({ title: "Pencil Sharpened", description: SHARPENERS[sharpener].description });
+  }, [pencilLength, executeCommand, toast]);
+
+  const handleUndo = useCallback(() => {
+    const command = undo();
+    if (command) toast({ title: "Undo", description: command.label });
+  }, [undo, toast]);
+
+  const handleRedo = useCallback(() => {
+    const command = redo();
+    if (command) toast({ title: "Redo", description: command.label });
+  }, [redo, toast]);
+
+  const handleLeadWearChange = useCallback((state: LeadWearState) => {
+    liveLeadWearRef.current = state;
+  }, []);
   
   const handleWheelPressure = useCallback((event: WheelEvent) => {
     event.preventDefault();
@@ -66,6 +351,26 @@ export const ArtStudio = () => {
     }
   }, [gravity]);
 
+  // Readings arrive with every pointer move; rounding them lets React skip the unchanged ones
+  const handleStylusInput = useCallback((reading: StylusReading) => {
+    setStylusDevice(reading.device);
+    if (!stylusRestoreRef.current) stylusRestoreRef.current = { gravity, pressure };
+    const level = Math.round(applyPressureCurve(reading.pressure, getStylusCalibration(stylusCalibrations, reading.device)) * 100) / 100;
+    setGravity(level);
+    setPressure(level);
+    // The eraser keeps its flipped angle
+    if (reading.tilt && activeTool !== 'eraser') setAngle(Math.round(reading.tilt.angle * 100) / 100);
+    if (reading.roll !== null) setRoll(reading.roll);
+  }, [stylusCalibrations, activeTool, gravity, pressure]);
+
+  const handleStylusLift = useCallback(() => {
+    const restore = stylusRestoreRef.current;
+    if (!restore) return;
+    stylusRestoreRef.current = null;
+    setGravity(restore.gravity);
+    setPressure(restore.pressure);
+  }, []);
+
   // Advanced keyboard shortcuts for professional workflow
   const handleKeyboard = useCallback((event: KeyboardEvent) => {
     const key = event.key.toLowerCase();
@@ -99,6 +404,10 @@ export const ArtStudio = () => {
         setActiveTool('mechanicalPencil');
         toast({ title: "Mechanical Pencil", description: "Precision mechanical pencil selected" });
         break;
+      case 'u':
+        setActiveTool('blendingStump');
+        toast({ title: "Blending Stump", description: "Smudge graphite to blend tones" });
+        break;
       case 'delete':
       case 'backspace':
         if (activeTool !== 'eraser') {
@@ -114,24 +423,40 @@ export const ArtStudio = () => {
         }
         break;
       case '1':
-        setSurfaceType('whiteboard');
+        changeSurface('whiteboard');
         break;
       case '2':
-        setSurfaceType('canvas');
+        changeSurface('canvas');
         break;
       case '3':
-        setSurfaceType('paper');
+        changeSurface('paper');
+        break;
+      case 'z':
+        if (event.ctrlKey || event.metaKey) {
+          event.preventDefault();
+          if (event.shiftKey) {
+            handleRedo();
+          } else {
+            handleUndo();
+          }
+        }
+        break;
+      case 'y':
+        if (event.ctrlKey || event.metaKey) {
+          event.preventDefault();
+          handleRedo();
+        }
         break;
       case 'r':
         if (event.ctrlKey || event.metaKey) {
           event.preventDefault();
-          toast({ title: "Canvas Reset", description: "Starting fresh!" });
+          setShowResetConfirm(true);
         }
         break;
       case 's':
         if (event.ctrlKey || event.metaKey) {
           event.preventDefault();
-          toast({ title: "Saved", description: "Your artwork has been saved" });
+          handleSave();
         }
         break;
       case 'f':
@@ -150,12 +475,24 @@ export const ArtStudio = () => {
           toast({ title: "Roll Right", description: `Pencil roll: ${roll + 5}°` });
         }
         break;
+      case 'k':
+        // Click the mechanical pencil's button to push out more lead
+        if (activeTool === 'mechanicalPencil') {
+          handleToolSettingsChange('mechanicalPencil', {
+            leadExtension: advanceLead(toolSettings.mechanicalPencil.leadExtension)
+          });
+        }
+        break;
+      case 'w':
+        setShowWetness(!showWetness);
+        toast({ title: "Wetness Map", description: showWetness ? "Heat-map hidden" : "Showing where paint is still wet" });
+        break;
       case 'tab':
         event.preventDefault();
         setShowToolPanel(!showToolPanel);
         break;
     }
-  }, [toast, isFullscreen, showToolPanel, mode, roll]);
+  }, [toast, isFullscreen, showToolPanel, showWetness, mode, roll, activeTool, toolSettings, handleSave, changeSurface, handleUndo, handleRedo, handleToolSettingsChange]);
 
   useEffect(() => {
     window.addEventListener('wheel', handleWheelPressure, { passive: false });
@@ -206,11 +543,37 @@ export const ArtStudio = () => {
       case 'eraser':
         engine.updateState({ mass: 0.03, elasticity: 0.9, damping: 0.8 });
         break;
+      case 'blendingStump':
+        engine.updateState({ mass: 0.01, elasticity: 0.7, damping: 0.9 });
+        break;
     }
   };
 
+  // The engine's brush reservoir mirrors whatever the palette loaded
+  useEffect(() => {
+    engine.updateToolProperties('brush', { paintLoad: loadedPaint?.amount ?? 0 });
+  }, [engine, loadedPaint]);
+
+  const handleBrushTravel = useCallback((strokePressure: number, velocity: number, distance: number) => {
+    const paintLoad = engine.depleteBrushPaint(strokePressure, velocity, distance);
+    setLoadedPaint(prev => (prev ? { ...prev, amount: paintLoad } : prev));
+  }, [engine]);
+
+  const strokePaint = useMemo(() => createStrokePaint(paintMedium, loadedPaint), [paintMedium, loadedPaint]);
+
+  // Loading paint picks up the brush
+  const handleLoadPaint = (paint: Paint | null) => {
+    setLoadedPaint(paint);
+    if (paint && activeTool !== 'brush') handleToolChange('brush');
+  };
+
+  const handleKneadEraser = () => {
+    canvasRef.current?.kneadEraser();
+    toast({ title: "Eraser kneaded", description: "Back to a clean point" });
+  };
+
   const handleSurfaceChange = (surface: SurfaceType) => {
-    setSurfaceType(surface);
+    changeSurface(surface);
     toast({
       title: `${surface.charAt(0).toUpperCase() + surface.slice(1)} Selected`,
       description: "Surface texture will affect tool behavior"
@@ -252,8 +615,18 @@ export const ArtStudio = () => {
             {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
           </Button>
           
-          <Button variant="ghost" size="sm">
-            <Save className="w-4 h-4" />
+          <DocumentMenu
+            documentId={documentId}
+            documentName={documentName}
+            lastSavedAt={lastSavedAt}
+            recentDocuments={recentDocuments}
+            onSave={handleSave}
+            onNew={handleNewDocument}
+            onOpen={handleOpenDocument}
+          />
+          
+          <Button variant="ghost" size="sm" onClick={() => setShowExportDialog(true)} title="Export">
+            <Download className="w-4 h-4" />
           </Button>
           
           <Button variant="ghost" size="sm">
@@ -288,12 +661,22 @@ export const ArtStudio = () => {
             onSurfaceChange={handleSurfaceChange}
             leadY={leadY}
             onLeadYChange={setLeadY}
+            paintMedium={paintMedium}
+            onPaintMediumChange={setPaintMedium}
+            toolSettings={toolSettings}
+            onToolSettingsChange={handleToolSettingsChange}
+            onKneadEraser={handleKneadEraser}
+            onSharpenPencil={sharpenPencil}
+            stylusDevice={stylusDevice}
+            stylusCalibration={stylusDevice ? getStylusCalibration(stylusCalibrations, stylusDevice) : null}
+            onStylusCalibrationChange={(changes) => stylusDevice && updateStylusCalibration(stylusDevice, changes)}
           />
         </div>
 
         {/* Main Canvas Area */}
         <div className="flex-1 flex flex-col">
           <ArtCanvas3D
+            ref={canvasRef}
             activeTool={activeTool}
             surfaceType={surfaceType}
             pressure={pressure}
@@ -302,26 +685,113 @@ export const ArtStudio = () => {
             roll={roll}
             mode={mode}
             leadY={leadY}
+            segments={replay.segments}
+            layers={layers}
+            activeLayerId={activeLayerId}
+            paintColor={loadedPaint?.color}
+            paintLoad={loadedPaint?.amount ?? 0}
+            strokePaint={strokePaint}
+            studioClock={studioClock}
+            replayStudioTime={replay.studioTime}
+            showWetness={showWetness}
+            toolSettings={toolSettings}
+            onToolSettingsChange={handleToolSettingsChange}
+            onBrushTravel={handleBrushTravel}
+            onSegmentComplete={handleSegmentComplete}
+            leadWear={leadWear}
+            onLeadWearChange={handleLeadWearChange}
+            pencilLength={pencilLength}
+            onStylusInput={handleStylusInput}
+            onStylusLift={handleStylusLift}
           />
         </div>
 
+        {/* History Panel */}
+        {activePanel === 'history' && (
+          <HistoryPanel
+            entries={historyEntries}
+            cursor={historyCursor}
+            totalSize={historySize}
+            maxBytes={historyMaxBytes}
+            onJump={jumpToHistory}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onClose={() => setActivePanel(null)}
+          />
+        )}
+
+        {/* Layers Panel */}
+        {activePanel === 'layers' && (
+          <LayersPanel
+            layers={layers}
+            activeLayerId={activeLayerId}
+            strokeCounts={layerStrokeCounts}
+            onSelect={setSelectedLayerId}
+            onAdd={addLayer}
+            onDelete={deleteLayer}
+            onUpdate={updateLayer}
+            onMove={moveLayer}
+            onClose={() => setActivePanel(null)}
+          />
+        )}
+
         {/* Right Sidebar */}
-        <RightSidebar />
+        <RightSidebar
+          activePanel={activePanel}
+          onPanelToggle={(panel) => setActivePanel(activePanel === panel ? null : panel)}
+        />
       </div>
 
       {/* Timeline */}
       <Timeline
-        isPlaying={isPlaying}
-        onPlayPause={() => setIsPlaying(!isPlaying)}
-        currentTime={currentTime}
-        duration={duration}
-        onTimeChange={setCurrentTime}
+        isPlaying={replay.isPlaying}
+        onPlayPause={replay.togglePlay}
+        currentTime={replay.currentTime}
+        duration={replay.duration}
+        onTimeChange={replay.seek}
+        onStop={replay.stop}
+        onSkipBack={replay.skipBack}
+        onSkipForward={replay.stop}
+        speed={replay.speed}
+        onSpeedChange={replay.setSpeed}
+      />
+
+      {/* Canvas Reset Confirmation */}
+      <AlertDialog open={showResetConfirm} onOpenChange={setShowResetConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset the canvas?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This clears every stroke, restores a fresh lead tip and re-centers the tool and camera.
+              You can undo it with Ctrl+Z.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={resetCanvas}>Reset Canvas</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Export Dialog */}
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        documentName={documentName}
+        onExportRaster={(options) =>
+          canvasRef.current
+            ? canvasRef.current.exportRaster(options)
+            : Promise.reject(new Error('Canvas is not ready'))
+        }
+        onExportSvg={(options) => svgToBlob(buildSvgDocument(segments, layers, options))}
       />
 
       {/* 3D Palette Modal */}
       <Palette3DCanvas 
         isOpen={showPalette}
         onClose={() => setShowPalette(false)}
+        loadedPaint={loadedPaint}
+        onLoadPaint={handleLoadPaint}
       />
 
     </div>